@@ -0,0 +1,215 @@
+/**
+ * FhevmProvider - Universal FHEVM SDK
+ * React context owning the FHEVM instance: initializes once, rebuilds it when the wallet
+ * switches chain or account (or another wallet is selected), and shares status with every hook below it
+ */
+
+import { createContext, createElement, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import {
+  FhevmNetworks,
+  NotInitializedError,
+  getDefaultClient,
+  getWalletProvider,
+  initializeFheInstance,
+  onWalletsChange,
+  resolveNetwork,
+  type FhevmClientConfig,
+  type FhevmNetworkConfig,
+  type WasmLoadProgress,
+} from '../core/index.js';
+
+export type FhevmStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface FhevmContextValue {
+  instance: any;
+  status: FhevmStatus;
+  error: string;
+  // WASM asset download / initialization progress
+  progress: WasmLoadProgress | null;
+  // True while the instance is rebuilt after a chain or account change
+  isTransitioning: boolean;
+  chainId: number | null;
+  account: string | null;
+  // Tear down and initialize again, optionally with new settings
+  reinitialize: (config?: FhevmClientConfig) => Promise<void>;
+}
+
+export interface FhevmProviderProps {
+  // Same settings as initializeFheInstance(); the network follows the wallet's chain when a preset matches it
+  config?: FhevmClientConfig;
+  children?: ReactNode;
+}
+
+const FhevmContext = createContext<FhevmContextValue | null>(null);
+
+export function FhevmProvider({ config, children }: FhevmProviderProps) {
+  const [instance, setInstance] = useState<any>(null);
+  const [status, setStatus] = useState<FhevmStatus>('idle');
+  const [error, setError] = useState<string>('');
+  const [progress, setProgress] = useState<WasmLoadProgress | null>(null);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [account, setAccount] = useState<string | null>(null);
+
+  // Latest props, so wallet events rebuild with the current config
+  const configRef = useRef(config);
+  configRef.current = config;
+  // Each (re)build gets a number; results of superseded builds are dropped
+  const buildRef = useRef(0);
+
+  const build = useCallback(async (nextChainId: number | null, overrides?: FhevmClientConfig) => {
+    const generation = ++buildRef.current;
+    const client = getDefaultClient();
+    const logger = client.getLogger();
+    const baseConfig = { ...configRef.current, ...overrides };
+
+    // Drop the old instance first: calls made from here on fail instead of using the old chain
+    const rebuilding = client.isInitialized;
+    client.dispose();
+    setInstance(null);
+    setStatus('loading');
+    setError('');
+    setIsTransitioning(rebuilding);
+
+    try {
+      const network = networkForChain(baseConfig, nextChainId);
+      const fheInstance = await initializeFheInstance({
+        ...baseConfig,
+        network,
+        wasm: {
+          ...baseConfig.wasm,
+          onProgress: (wasmProgress) => {
+            if (generation === buildRef.current) setProgress(wasmProgress);
+            baseConfig.wasm?.onProgress?.(wasmProgress);
+          },
+        },
+      });
+      if (generation !== buildRef.current) return;
+
+      setInstance(fheInstance);
+      setStatus('ready');
+      logger.info(`✅ FHEVM ready on ${network.name}`);
+    } catch (err) {
+      if (generation !== buildRef.current) return;
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setStatus('error');
+      logger.error('❌ FHEVM initialization failed:', err);
+    } finally {
+      if (generation === buildRef.current) setIsTransitioning(false);
+    }
+  }, []);
+
+  const chainIdRef = useRef<number | null>(null);
+  // The wallet the SDK talks to; selecting another one rebuilds for its chain and account
+  const [ethereum, setEthereum] = useState(() => getWalletProvider());
+
+  useEffect(() => onWalletsChange(() => setEthereum(getWalletProvider())), []);
+
+  useEffect(() => {
+    let active = true;
+
+    if (!ethereum) {
+      // Node.js-like environments and mock mode: no wallet to follow
+      void build(null);
+      return () => {
+        buildRef.current++;
+      };
+    }
+
+    const handleChainChanged = (chainIdHex: string) => {
+      const next = parseInt(chainIdHex, 16);
+      if (next === chainIdRef.current) return;
+      chainIdRef.current = next;
+      setChainId(next);
+      getDefaultClient().getLogger().debug('🔄 Chain changed, rebuilding FHEVM instance for', next);
+      void build(next);
+    };
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      setAccount(accounts[0] ?? null);
+      getDefaultClient().getLogger().debug('🔄 Account changed, rebuilding FHEVM instance');
+      void build(chainIdRef.current);
+    };
+
+    (async () => {
+      try {
+        const [chainIdHex, accounts] = await Promise.all([
+          ethereum.request({ method: 'eth_chainId' }),
+          ethereum.request({ method: 'eth_accounts' }),
+        ]);
+        if (!active) return;
+        chainIdRef.current = parseInt(chainIdHex, 16);
+        setChainId(chainIdRef.current);
+        setAccount(accounts?.[0] ?? null);
+      } catch (err) {
+        getDefaultClient().getLogger().warn('Could not read the wallet chain, using the configured network:', err);
+      }
+      if (active) void build(chainIdRef.current);
+    })();
+
+    ethereum.on('chainChanged', handleChainChanged);
+    ethereum.on('accountsChanged', handleAccountsChanged);
+
+    return () => {
+      active = false;
+      // Builds still running must not update an unmounted provider
+      buildRef.current++;
+      ethereum.removeListener('chainChanged', handleChainChanged);
+      ethereum.removeListener('accountsChanged', handleAccountsChanged);
+    };
+  }, [build, ethereum]);
+
+  const reinitialize = useCallback((overrides?: FhevmClientConfig) => build(chainIdRef.current, overrides), [build]);
+
+  const value: FhevmContextValue = {
+    instance,
+    status,
+    error,
+    progress,
+    isTransitioning,
+    chainId,
+    account,
+    reinitialize,
+  };
+
+  return createElement(FhevmContext.Provider, { value }, children);
+}
+
+/**
+ * The nearest FhevmProvider's state, or null outside of one
+ */
+export function useFhevmContext(): FhevmContextValue | null {
+  return useContext(FhevmContext);
+}
+
+/**
+ * Stable check for hooks: throws while the provider above is not ready (no-op without a provider)
+ */
+export function useFhevmGuard(): () => void {
+  const context = useContext(FhevmContext);
+  const contextRef = useRef(context);
+  contextRef.current = context;
+
+  return useCallback(() => {
+    const current = contextRef.current;
+    if (!current || current.status === 'ready') return;
+    if (current.isTransitioning || current.status === 'loading') {
+      throw new NotInitializedError('FHEVM is re-initializing after a chain or account change. Try again once it is ready.');
+    }
+    throw new NotInitializedError(current.error || undefined);
+  }, []);
+}
+
+/**
+ * The configured network when it matches the wallet's chain, else the preset for that chain
+ */
+function networkForChain(config: FhevmClientConfig, chainId: number | null): FhevmNetworkConfig {
+  const configured = resolveNetwork(config.network);
+  if (chainId === null || configured.chainId === chainId) return configured;
+
+  const preset = Object.values(FhevmNetworks).find(network => network.chainId === chainId);
+  if (!preset) {
+    throw new Error(`Chain ${chainId} is not an FHEVM network. Switch the wallet to ${configured.name} (chain ${configured.chainId}).`);
+  }
+  return preset;
+}
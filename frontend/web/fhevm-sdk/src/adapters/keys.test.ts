@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { toKeyPart } from './keys.js';
+
+describe('toKeyPart', () => {
+  it('makes event filters with bigint indexed values serializable', () => {
+    const filter = { recordId: 42n, owner: null, ids: [1n, 2n] };
+
+    expect(() => JSON.stringify(filter)).toThrow(TypeError);
+    expect(JSON.stringify(toKeyPart(filter))).toBe('{"recordId":"42n","owner":null,"ids":["1n","2n"]}');
+  });
+
+  it('keeps equal filters on equal keys and different ones apart', () => {
+    const key = (value: unknown) => JSON.stringify(toKeyPart(value));
+
+    expect(key([7n, { to: '0xab' }])).toBe(key([7n, { to: '0xab' }]));
+    expect(key({ amount: 1n })).not.toBe(key({ amount: 1 }));
+  });
+
+  it('hex-encodes bytes and leaves other values alone', () => {
+    expect(toKeyPart(new Uint8Array([1, 255]))).toBe('0x01ff');
+    expect(toKeyPart('rec-1')).toBe('rec-1');
+    expect(toKeyPart(undefined)).toBeUndefined();
+  });
+});
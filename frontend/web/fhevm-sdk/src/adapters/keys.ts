@@ -0,0 +1,19 @@
+/**
+ * Adapter Keys - Universal SDK
+ * Dependency keys for hooks, safe for the bigint and bytes values contract arguments hold
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Make a value JSON-serializable: JSON.stringify, which query keys and effect keys go through, throws on bigint
+ */
+export function toKeyPart(value: unknown): unknown {
+  if (typeof value === 'bigint') return `${value}n`;
+  if (value instanceof Uint8Array) return ethers.hexlify(value);
+  if (Array.isArray(value)) return value.map(toKeyPart);
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toKeyPart(entry)]));
+  }
+  return value;
+}
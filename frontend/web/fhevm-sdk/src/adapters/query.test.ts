@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { act, createElement, Fragment } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { FhevmContract } from '../core/index.js';
+import { useEncryptedRead } from './query.js';
+
+const CONTRACT = '0x00000000000000000000000000000000000000c0';
+const ABI = ['function value() view returns (bytes32)', 'event Updated(uint256 id)'];
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Read-only contract on its own provider object
+function contractOn(provider: object) {
+  return new ethers.Contract(CONTRACT, ABI, provider as ethers.ContractRunner);
+}
+
+describe('useEncryptedRead event invalidation', () => {
+  let root: Root;
+  let on: MockInstance<FhevmContract['on']>;
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    unsubscribe = vi.fn();
+    on = vi.spyOn(FhevmContract.prototype, 'on').mockImplementation(() => unsubscribe);
+    root = createRoot(document.createElement('div'));
+  });
+
+  afterEach(() => {
+    on.mockRestore();
+  });
+
+  async function render(contracts: ethers.Contract[]) {
+    function Read({ contract }: { contract: ethers.Contract }) {
+      useEncryptedRead(contract, 'value', [], { enabled: false });
+      return null;
+    }
+    const queryClient = new QueryClient();
+    await act(async () => root.render(createElement(
+      QueryClientProvider,
+      { client: queryClient },
+      createElement(Fragment, null, ...contracts.map((contract, index) => createElement(Read, { key: index, contract })))
+    )));
+  }
+
+  it('shares one subscription between hooks watching the same provider', async () => {
+    const provider = { provider: null };
+    await render([contractOn(provider), contractOn(provider)]);
+
+    expect(on).toHaveBeenCalledTimes(1);
+
+    await act(async () => root.unmount());
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('subscribes once per provider to the same address, e.g. on two chains', async () => {
+    await render([contractOn({ provider: null }), contractOn({ provider: null })]);
+
+    expect(on).toHaveBeenCalledTimes(2);
+
+    await act(async () => root.unmount());
+    expect(unsubscribe).toHaveBeenCalledTimes(2);
+  });
+});
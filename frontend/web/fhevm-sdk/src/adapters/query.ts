@@ -0,0 +1,312 @@
+/**
+ * TanStack Query Adapter - Universal FHEVM SDK
+ * Query hooks for encrypted reads, decryptions and encrypted writes. Keys follow the contract address
+ * and handle, contract events invalidate the reads, and plaintexts only ever live in memory.
+ *
+ * Import from '@fhevm-sdk/query' so apps without @tanstack/react-query never load it.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  defaultShouldDehydrateQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type Query,
+  type QueryClient,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import { ethers } from 'ethers';
+import {
+  FhevmContract,
+  batchDecryptValues,
+  getDefaultClient,
+  getWalletProvider,
+  onWalletsChange,
+  publicDecryptV09,
+  toFhevmError,
+  type ClearValue,
+  type Eip1193Provider,
+} from '../core/index.js';
+import { toKeyPart } from './keys.js';
+import { resolveSigner } from './signer.js';
+
+// FhevmContract (e.g. writeContract from useContract) or a plain ethers contract (readContract)
+export type QueryContract = FhevmContract<any> | ethers.Contract;
+
+export interface EncryptedReadOptions {
+  enabled?: boolean;
+  // Events that invalidate this contract's reads; all events in the ABI by default, false for none
+  invalidateOn?: string[] | false;
+  // Block confirmations before an event invalidates
+  confirmations?: number;
+}
+
+export interface DecryptedValueOptions {
+  enabled?: boolean;
+  // Public decryption (FHE.makePubliclyDecryptable) instead of EIP-712 user decryption
+  public?: boolean;
+}
+
+export type FhevmMutationOptions = Omit<UseMutationOptions<ethers.TransactionReceipt, Error, any[]>, 'mutationFn'> & {
+  // Invalidate the contract's reads once the transaction is mined (default true)
+  invalidate?: boolean;
+};
+
+// Marks plaintext queries so persisters can leave them out
+const PLAINTEXT_META = { fhevmPlaintext: true };
+
+/**
+ * Query keys used by the hooks, for invalidateQueries / removeQueries
+ */
+export const fhevmQueryKeys = {
+  all: ['fhevm'] as const,
+  // Prefix of every read of one contract; its events invalidate this
+  contract: (address: string) => ['fhevm', 'contract', address.toLowerCase()] as const,
+  read: (address: string, method: string, args: readonly unknown[] = []) =>
+    [...fhevmQueryKeys.contract(address), 'read', method, toKeyPart(args)] as const,
+  // Prefix of every plaintext
+  decryptedAll: ['fhevm', 'decrypted'] as const,
+  // Per account: another account may not be allowed to see the same handle
+  decrypted: (handle: string, contractAddress: string | null = null, account: string | null = null) =>
+    ['fhevm', 'decrypted', handle.toLowerCase(), contractAddress?.toLowerCase() ?? null, account?.toLowerCase() ?? null] as const,
+};
+
+/**
+ * Call a view function, usually one returning an encrypted handle: `useEncryptedRead(contract, 'getEncryptedData', [recordId])`.
+ * Refetched when the contract emits one of the watched events.
+ */
+export function useEncryptedRead<T = string>(
+  contract: QueryContract | null | undefined,
+  method: string,
+  args: readonly unknown[] = [],
+  options: EncryptedReadOptions = {}
+) {
+  const address = contract ? getContractAddress(contract) : '';
+  useInvalidateOnEvents(contract, options.invalidateOn, options.confirmations);
+
+  return useQuery<T, Error>({
+    queryKey: fhevmQueryKeys.read(address, method, args),
+    queryFn: async () => {
+      const ethersContract = toEthersContract(contract!);
+      try {
+        return await ethersContract.getFunction(method)(...args);
+      } catch (error) {
+        throw toFhevmError(error, ethersContract.interface);
+      }
+    },
+    enabled: Boolean(contract) && (options.enabled ?? true),
+    // ethers Results are Proxy arrays; structural sharing would copy them into plain ones
+    structuralSharing: false,
+  });
+}
+
+/**
+ * Decrypt a handle for the connected account (or publicly). The plaintext is cached in memory under the handle
+ * and never refetched, since a handle's value cannot change: a new value comes with a new handle.
+ */
+export function useDecryptedValue(
+  handle: string | null | undefined,
+  contract: QueryContract | string | null | undefined,
+  options: DecryptedValueOptions = {}
+) {
+  const account = useWalletAccount();
+  const isPublic = options.public ?? false;
+  const contractAddress = contract ? (typeof contract === 'string' ? contract : getContractAddress(contract)) : null;
+  const hasHandle = Boolean(handle) && handle !== ethers.ZeroHash;
+
+  return useQuery<ClearValue, Error>({
+    queryKey: fhevmQueryKeys.decrypted(handle ?? '', isPublic ? null : contractAddress, isPublic ? null : account),
+    queryFn: async () => {
+      try {
+        if (isPublic) {
+          const result = await publicDecryptV09([handle!]);
+          return result.clearValues[handle!];
+        }
+        const values = await batchDecryptValues([handle!], contractAddress!, await resolveSigner());
+        return values[handle!];
+      } catch (error) {
+        throw toFhevmError(error);
+      }
+    },
+    enabled: hasHandle && (isPublic || (Boolean(contractAddress) && Boolean(account))) && (options.enabled ?? true),
+    staleTime: Infinity,
+    // A retry can mean another wallet signature prompt
+    retry: false,
+    meta: PLAINTEXT_META,
+  });
+}
+
+/**
+ * Encrypting write through FhevmContract.writeAndWait(): `mutate([recordId, patientId, 120, ...])` takes the
+ * plain arguments. The contract's reads are invalidated when the transaction is mined.
+ */
+export function useFhevmMutation(
+  contract: FhevmContract<any> | null | undefined,
+  method: string,
+  options: FhevmMutationOptions = {}
+) {
+  const queryClient = useQueryClient();
+  const { invalidate = true, onSuccess, ...mutationOptions } = options;
+  const address = contract ? getContractAddress(contract) : null;
+
+  return useMutation<ethers.TransactionReceipt, Error, any[]>({
+    mutationKey: address ? [...fhevmQueryKeys.contract(address), 'write', method] : ['fhevm', 'write', method],
+    ...mutationOptions,
+    mutationFn: async (args) => {
+      if (!contract) throw new Error('Connect a wallet before sending transactions.');
+      return contract.writeAndWait(method, ...args);
+    },
+    onSuccess: async (...params) => {
+      if (invalidate && address) await queryClient.invalidateQueries({ queryKey: fhevmQueryKeys.contract(address) });
+      return onSuccess?.(...params);
+    },
+  });
+}
+
+/**
+ * Drop every cached plaintext, e.g. on logout
+ */
+export function clearDecryptedValues(queryClient: QueryClient) {
+  queryClient.removeQueries({ queryKey: fhevmQueryKeys.decryptedAll });
+}
+
+/**
+ * dehydrate() / persistQueryClient filter keeping plaintexts out of storage:
+ * `dehydrateOptions: { shouldDehydrateQuery: shouldDehydrateFhevmQuery }`
+ */
+export function shouldDehydrateFhevmQuery(query: Query): boolean {
+  return query.meta?.fhevmPlaintext !== true && defaultShouldDehydrateQuery(query);
+}
+
+// One event subscription per query client, provider, contract and event, shared by every hook watching it
+const eventSubscriptions = new WeakMap<QueryClient, Map<string, { count: number; unsubscribe: () => void }>>();
+// A number per provider: one address on two providers (e.g. two chains) needs two subscriptions
+const providerIds = new WeakMap<object, number>();
+let nextProviderId = 1;
+
+function useInvalidateOnEvents(
+  contract: QueryContract | null | undefined,
+  eventNames: string[] | false | undefined,
+  confirmations: number | undefined
+) {
+  const queryClient = useQueryClient();
+  // Inline arrays are new on every render
+  const eventsKey = JSON.stringify(eventNames ?? null);
+
+  useEffect(() => {
+    if (!contract || eventNames === false) return;
+
+    const fhevmContract = contract instanceof FhevmContract ? contract : new FhevmContract(contract, getContractAddress(contract));
+    const address = getContractAddress(contract).toLowerCase();
+    const names = eventNames ?? abiEventNames(toEthersContract(contract));
+
+    let subscriptions = eventSubscriptions.get(queryClient);
+    if (!subscriptions) {
+      subscriptions = new Map();
+      eventSubscriptions.set(queryClient, subscriptions);
+    }
+
+    const source = providerKey(toEthersContract(contract));
+    const keys = names.map(eventName => `${source}:${address}:${eventName}:${confirmations ?? 1}`);
+    names.forEach((eventName, index) => {
+      const existing = subscriptions!.get(keys[index]);
+      if (existing) {
+        existing.count++;
+        return;
+      }
+      const unsubscribe = fhevmContract.on(
+        eventName,
+        () => {
+          void queryClient.invalidateQueries({ queryKey: fhevmQueryKeys.contract(address) });
+        },
+        {
+          confirmations,
+          onError: (error) => getDefaultClient().getLogger().warn(`⚠️ ${eventName} invalidation:`, error),
+        }
+      );
+      subscriptions!.set(keys[index], { count: 1, unsubscribe });
+    });
+
+    return () => {
+      for (const key of keys) {
+        const subscription = subscriptions!.get(key);
+        if (!subscription || --subscription.count > 0) continue;
+        subscription.unsubscribe();
+        subscriptions!.delete(key);
+      }
+    };
+  }, [queryClient, contract, eventsKey, confirmations]);
+}
+
+/**
+ * Account of the default client's signer, else of the selected wallet
+ */
+function useWalletAccount(): string | null {
+  const [account, setAccount] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    let walletProvider: Eip1193Provider | undefined;
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (active) setAccount(accounts?.[0] ?? null);
+    };
+
+    const refresh = async () => {
+      const next = getWalletProvider();
+      if (next !== walletProvider) {
+        walletProvider?.removeListener('accountsChanged', handleAccountsChanged);
+        walletProvider = next;
+        walletProvider?.on('accountsChanged', handleAccountsChanged);
+      }
+
+      try {
+        const signer = getDefaultClient().getSigner();
+        if (signer) handleAccountsChanged([await signer.getAddress()]);
+        else handleAccountsChanged(walletProvider ? await walletProvider.request({ method: 'eth_accounts' }) : []);
+      } catch {
+        handleAccountsChanged([]);
+      }
+    };
+
+    void refresh();
+    const stopWatchingWallets = onWalletsChange(() => void refresh());
+
+    return () => {
+      active = false;
+      stopWatchingWallets();
+      walletProvider?.removeListener('accountsChanged', handleAccountsChanged);
+    };
+  }, []);
+
+  return account;
+}
+
+function toEthersContract(contract: QueryContract): ethers.Contract {
+  return contract instanceof FhevmContract ? contract.getContract() : contract;
+}
+
+function getContractAddress(contract: QueryContract): string {
+  return String(toEthersContract(contract).target);
+}
+
+function providerKey(contract: ethers.Contract): string {
+  const runner = contract.runner;
+  const provider = runner?.provider ?? runner;
+  if (!provider) return 'none';
+
+  let id = providerIds.get(provider);
+  if (id === undefined) {
+    id = nextProviderId++;
+    providerIds.set(provider, id);
+  }
+  return String(id);
+}
+
+function abiEventNames(contract: ethers.Contract): string[] {
+  const names: string[] = [];
+  // Full signatures, so overloaded events stay unambiguous
+  contract.interface.forEachEvent(fragment => names.push(fragment.format()));
+  return names;
+}
@@ -8,8 +8,13 @@
 // Import and re-export all individual hooks
 export { useWallet } from './useWallet.js';
 export { useFhevm } from './useFhevm.js';
-export { useContract } from './useContract.js';
+export { useContract, useTypedContract } from './useContract.js';
+export type { TypedContractFactory, UseContractResult } from './useContract.js';
 export { useDecrypt } from './useDecrypt.js';
 export { useEncrypt } from './useEncrypt.js';
+export { useRelayerStatus } from './useRelayerStatus.js';
+export { useContractEvent } from './useContractEvent.js';
+export { FhevmProvider, useFhevmContext } from './FhevmProvider.js';
+export type { FhevmContextValue, FhevmProviderProps, FhevmStatus } from './FhevmProvider.js';
 
 
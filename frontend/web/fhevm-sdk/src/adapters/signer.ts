@@ -0,0 +1,20 @@
+/**
+ * Adapter Signer - Universal SDK
+ * Signer for user decryption, shared by the React hooks and the Vue composables
+ */
+
+import { ethers } from 'ethers';
+import { getDefaultClient, getWalletProvider } from '../core/index.js';
+
+/**
+ * The default client's signer, else the connected wallet
+ */
+export async function resolveSigner() {
+  const signer = getDefaultClient().getSigner();
+  if (signer) return signer;
+  const walletProvider = getWalletProvider();
+  if (!walletProvider) {
+    throw new Error('No wallet connected. Connect a wallet to decrypt.');
+  }
+  return new ethers.BrowserProvider(walletProvider).getSigner();
+}
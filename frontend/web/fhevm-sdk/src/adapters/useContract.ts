@@ -2,34 +2,129 @@
  * Wagmi-like hook for contract interactions
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ethers } from 'ethers';
+import { FhevmContract, getWalletProvider, onWalletsChange, type FhevmContractAbi } from '../core/index.js';
 
-export function useContract(address: string, abi: any[]) {
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
+// TypeChain factory (e.g. UniversalFHEAdapter__factory from types/contracts): its ABI and typed connect()
+export interface TypedContractFactory<T> {
+  readonly abi: FhevmContractAbi;
+  connect(address: string, runner?: ethers.ContractRunner | null): T;
+}
+
+export interface UseContractResult<T> {
+  // Read-only instance on the wallet's provider (same as readContract)
+  contract: T | null;
+  readContract: T | null;
+  // Plain instance signed by the current account, for calls without encrypted inputs
+  signerContract: T | null;
+  // Auto-encrypting wrapper signed by the current account: writeContract.write('fn', ...plainArgs)
+  writeContract: FhevmContract | null;
+  account: string | null;
+  isReady: boolean;
+  error: string;
+}
+
+/**
+ * Contract bound to the selected wallet. Instances stay the same across renders and are rebuilt only when
+ * the address, the ABI contents, the wallet, its account or its chain change, so inline ABIs are fine.
+ */
+export function useContract(address: string, abi: FhevmContractAbi): UseContractResult<ethers.Contract> {
+  return useContractInstances(address, abi, (runner) => new ethers.Contract(address, abi as ethers.InterfaceAbi, runner));
+}
+
+/**
+ * useContract() with a TypeChain factory, so reads and plain calls are typed:
+ * `const { readContract } = useTypedContract(UniversalFHEAdapter__factory, address)`
+ */
+export function useTypedContract<T>(factory: TypedContractFactory<T>, address: string): UseContractResult<T> {
+  return useContractInstances(address, factory.abi, (runner) => factory.connect(address, runner));
+}
+
+const NO_INSTANCES = { read: null, signer: null, write: null };
+
+function useContractInstances<T>(
+  address: string,
+  abi: FhevmContractAbi,
+  connect: (runner: ethers.ContractRunner) => T
+): UseContractResult<T> {
+  const [instances, setInstances] = useState<{ read: T | null; signer: T | null; write: FhevmContract | null }>(NO_INSTANCES);
+  const [account, setAccount] = useState<string | null>(null);
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string>('');
+  const [walletProvider, setWalletProvider] = useState(() => getWalletProvider());
+
+  // Latest arguments for the effect; only the ABI's contents decide when to rebuild
+  const abiRef = useRef(abi);
+  abiRef.current = abi;
+  const connectRef = useRef(connect);
+  connectRef.current = connect;
+  const abiKey = JSON.stringify(abi);
+
+  useEffect(() => onWalletsChange(() => setWalletProvider(getWalletProvider())), []);
 
   useEffect(() => {
-    if (!window.ethereum || !address || !abi) return;
-
-    try {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const contractInstance = new ethers.Contract(address, abi, provider);
-      setContract(contractInstance);
-      setIsReady(true);
-      setError('');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Contract setup failed');
+    // Instances for the previous wallet or address must not outlive it, or writes go out with a stale signer
+    const reset = () => {
+      setInstances(NO_INSTANCES);
+      setAccount(null);
       setIsReady(false);
-    }
-  }, [address, abi]);
+    };
+
+    reset();
+    if (!walletProvider || !address || !abiRef.current) return;
+
+    let generation = 0;
+
+    const build = async () => {
+      const current = ++generation;
+      try {
+        // A BrowserProvider is pinned to one chain, so every rebuild gets a fresh one
+        const provider = new ethers.BrowserProvider(walletProvider);
+        const accounts: string[] = await walletProvider.request({ method: 'eth_accounts' });
+        const nextAccount = accounts?.[0] ?? null;
+        const signer = nextAccount ? await provider.getSigner(nextAccount) : null;
+        if (current !== generation) return;
+
+        setInstances({
+          read: connectRef.current(provider),
+          signer: signer ? connectRef.current(signer) : null,
+          write: signer ? FhevmContract.create(address, abiRef.current, signer) : null,
+        });
+        setAccount(nextAccount);
+        setIsReady(true);
+        setError('');
+      } catch (err) {
+        if (current !== generation) return;
+        setError(err instanceof Error ? err.message : 'Contract setup failed');
+        setIsReady(false);
+      }
+    };
+
+    const handleChange = () => {
+      reset();
+      void build();
+    };
+
+    void build();
+    walletProvider.on('accountsChanged', handleChange);
+    walletProvider.on('chainChanged', handleChange);
+
+    return () => {
+      // Drop results of builds still running
+      generation++;
+      walletProvider.removeListener('accountsChanged', handleChange);
+      walletProvider.removeListener('chainChanged', handleChange);
+    };
+  }, [walletProvider, address, abiKey]);
 
   return {
-    contract,
+    contract: instances.read,
+    readContract: instances.read,
+    signerContract: instances.signer,
+    writeContract: instances.write,
+    account,
     isReady,
     error,
   };
 }
-
-
@@ -0,0 +1,53 @@
+/**
+ * Wagmi-like hook for contract events
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type {
+  EventSubscriptionOptions,
+  FhevmContract,
+  FhevmContractEvent,
+  EventArgsOf,
+} from '../core/index.js';
+import { toKeyPart } from './keys.js';
+
+export function useContractEvent<Events extends EventArgsOf<Events>, K extends keyof Events & string>(
+  contract: FhevmContract<Events> | null | undefined,
+  eventName: K,
+  handler: (event: FhevmContractEvent<Events[K]>) => void,
+  options: Omit<EventSubscriptionOptions, 'onError'> = {}
+) {
+  const [lastEvent, setLastEvent] = useState<FhevmContractEvent<Events[K]> | null>(null);
+  const [error, setError] = useState<string>('');
+
+  // Latest handler without resubscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  // Inline filter objects are new on every render; indexed uint256 values are bigints
+  const filterKey = JSON.stringify(toKeyPart(options.filter ?? null));
+
+  useEffect(() => {
+    if (!contract) return;
+
+    setError('');
+    try {
+      return contract.on(
+        eventName,
+        (event) => {
+          setLastEvent(event);
+          handlerRef.current(event);
+        },
+        {
+          filter: options.filter,
+          confirmations: options.confirmations,
+          onError: (err) => setError(err.message),
+        }
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Event subscription failed');
+    }
+  }, [contract, eventName, filterKey, options.confirmations]);
+
+  return { lastEvent, error };
+}
@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import { act, createElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FhevmClient, setDefaultClient } from '../core/index.js';
+import { useDecrypt } from './useDecrypt.js';
+
+const batchDecryptValues = vi.hoisted(() => vi.fn());
+vi.mock('../core/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../core/index.js')>()),
+  batchDecryptValues,
+}));
+
+const CONTRACT = '0x00000000000000000000000000000000000000c0';
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const BOB = '0x00000000000000000000000000000000000000b2';
+const HANDLE = `0x${'ab'.repeat(21)}00${(11155111).toString(16).padStart(16, '0')}0400`;
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+/**
+ * EIP-1193 wallet whose events the test fires
+ */
+function fakeWallet() {
+  const listeners = new Map<string, Set<(...args: any[]) => void>>();
+  return {
+    request: vi.fn(async () => []),
+    on: (event: string, listener: (...args: any[]) => void) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    },
+    removeListener: (event: string, listener: (...args: any[]) => void) => listeners.get(event)?.delete(listener),
+    emit: (event: string, ...args: any[]) => listeners.get(event)?.forEach(listener => listener(...args)),
+  };
+}
+
+describe('useDecrypt', () => {
+  let account: string;
+  let wallet: ReturnType<typeof fakeWallet>;
+  let root: Root;
+  let hook: ReturnType<typeof useDecrypt>;
+
+  beforeEach(async () => {
+    account = ALICE;
+    wallet = fakeWallet();
+    (window as any).ethereum = wallet;
+    setDefaultClient(new FhevmClient({ signer: { getAddress: async () => account } }));
+    batchDecryptValues.mockReset();
+    batchDecryptValues.mockImplementation(async (handles: string[]) =>
+      Object.fromEntries(handles.map(handle => [handle, account === ALICE ? 120n : 80n])));
+
+    function Probe() {
+      hook = useDecrypt();
+      return null;
+    }
+    root = createRoot(document.createElement('div'));
+    await act(async () => root.render(createElement(Probe)));
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+    delete (window as any).ethereum;
+  });
+
+  async function decryptAsCurrentAccount() {
+    let values: Record<string, unknown> = {};
+    await act(async () => {
+      values = await hook.userDecrypt([HANDLE], CONTRACT);
+    });
+    return values;
+  }
+
+  it.each(['accountsChanged', 'chainChanged'])('drops decrypted values on %s', async (event) => {
+    await decryptAsCurrentAccount();
+    expect(hook.getDecryption(HANDLE)?.value).toBe(120n);
+
+    await act(async () => wallet.emit(event, event === 'chainChanged' ? '0x1' : [BOB]));
+
+    expect(hook.decryptions).toEqual({});
+    // Nothing answered from the previous account's cache either
+    await decryptAsCurrentAccount();
+    expect(batchDecryptValues).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the previous account\'s values when the signer changes without wallet events', async () => {
+    await decryptAsCurrentAccount();
+
+    account = BOB;
+    const values = await decryptAsCurrentAccount();
+
+    expect(values[HANDLE]).toBe(80n);
+    expect(batchDecryptValues).toHaveBeenCalledTimes(2);
+    expect(hook.decryptions).toEqual({ [HANDLE.toLowerCase()]: { isDecrypting: false, value: 80n } });
+  });
+
+  it('keeps a decryption that finishes after an account switch out of the state', async () => {
+    let finish!: (values: Record<string, bigint>) => void;
+    batchDecryptValues.mockImplementationOnce(() => new Promise(resolve => (finish = resolve)));
+
+    let pending!: Promise<unknown>;
+    await act(async () => {
+      pending = hook.userDecrypt([HANDLE], CONTRACT).catch(error => error);
+    });
+    await act(async () => wallet.emit('accountsChanged', [BOB]));
+    await act(async () => {
+      finish({ [HANDLE]: 120n });
+      await pending;
+    });
+
+    expect(await pending).toMatchObject({ message: expect.stringContaining('changed during decryption') });
+    expect(hook.getDecryption(HANDLE)).toBeUndefined();
+  });
+
+  it('answers the same account from its cache', async () => {
+    await decryptAsCurrentAccount();
+    await decryptAsCurrentAccount();
+
+    expect(batchDecryptValues).toHaveBeenCalledTimes(1);
+  });
+});
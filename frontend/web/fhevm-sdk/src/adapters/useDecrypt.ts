@@ -2,12 +2,48 @@
  * Wagmi-like hook for decryption operations - FHE v0.9
  */
 
-import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  batchDecryptValues,
+  getWalletProvider,
+  onWalletsChange,
+  publicDecryptV09,
+  toFhevmError,
+  type ClearValue,
+  type Eip1193Provider,
+} from '../core/index.js';
+import { useRelayerStatus } from './useRelayerStatus.js';
+import { useFhevmGuard } from './FhevmProvider.js';
+import { resolveSigner } from './signer.js';
+
+/**
+ * State of one handle in userDecrypt
+ */
+export interface HandleDecryptionState {
+  isDecrypting: boolean;
+  value?: ClearValue;
+  error?: string;
+}
+
+interface CachedClearValue {
+  userAddress: string;
+  value: ClearValue;
+}
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string>('');
+  // Per-handle state of user decryptions, keyed by lowercase handle
+  const [decryptions, setDecryptions] = useState<Record<string, HandleDecryptionState>>({});
+  // Clear values stay in this component's memory only, tied to the account that decrypted them
+  const cache = useRef(new Map<string, CachedClearValue>());
+  // Account the values in `decryptions` belong to, and a counter bumped whenever they are dropped
+  const owner = useRef<string | null>(null);
+  const epoch = useRef(0);
+  // Degraded mode: the circuit is open and relayer calls fail fast
+  const { status: relayerStatus, isRelayerUnavailable } = useRelayerStatus();
+  // Under an FhevmProvider, refuse to decrypt while the instance is being rebuilt
+  const assertReady = useFhevmGuard();
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
@@ -18,6 +54,7 @@ export function useDecrypt() {
     setError('');
     
     try {
+      assertReady();
       const decryptionResult = await publicDecryptV09(handles);
       
       const tx = await verifyFunction(
@@ -32,18 +69,131 @@ export function useDecrypt() {
         transactionReceipt: receipt
       };
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message || 'Decryption verification failed');
+      throw fhevmError;
     } finally {
       setIsDecrypting(false);
     }
+  }, [assertReady]);
+
+  /**
+   * Forget every decrypted value, e.g. on logout
+   */
+  const clearCache = useCallback(() => {
+    cache.current.clear();
+    owner.current = null;
+    epoch.current++;
+    setDecryptions({});
   }, []);
 
+  // Plaintexts belong to one account on one chain: drop them when the wallet, its account or its chain changes
+  useEffect(() => {
+    let walletProvider: Eip1193Provider | undefined;
+
+    const watch = () => {
+      const next = getWalletProvider();
+      if (next === walletProvider) return;
+      walletProvider?.removeListener('accountsChanged', clearCache);
+      walletProvider?.removeListener('chainChanged', clearCache);
+      if (walletProvider) clearCache();
+      walletProvider = next;
+      walletProvider?.on('accountsChanged', clearCache);
+      walletProvider?.on('chainChanged', clearCache);
+    };
+
+    watch();
+    const stopWatchingWallets = onWalletsChange(watch);
+
+    return () => {
+      stopWatchingWallets();
+      walletProvider?.removeListener('accountsChanged', clearCache);
+      walletProvider?.removeListener('chainChanged', clearCache);
+    };
+  }, [clearCache]);
+
+  /**
+   * Reveal values to the connected account only (EIP-712 user decryption, nothing goes on-chain).
+   * Cached handles are answered from memory; the others share one relayer request.
+   */
+  const userDecrypt = useCallback(async (
+    handles: string[],
+    contractAddress: string,
+    options: { force?: boolean } = {}
+  ): Promise<Record<string, ClearValue>> => {
+    setError('');
+
+    let signer: any;
+    let userAddress: string;
+    try {
+      assertReady();
+      signer = await resolveSigner();
+      userAddress = (await signer.getAddress()).toLowerCase();
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message || 'No signer available');
+      throw fhevmError;
+    }
+
+    // A signer switched without wallet events (e.g. setDefaultClient) must not see the previous account's values
+    if (owner.current !== null && owner.current !== userAddress) clearCache();
+    owner.current = userAddress;
+    const startedIn = epoch.current;
+
+    const results: Record<string, ClearValue> = {};
+    const pending: string[] = [];
+    for (const handle of handles) {
+      const cached = cache.current.get(handle.toLowerCase());
+      if (cached && cached.userAddress === userAddress && !options.force) results[handle] = cached.value;
+      else if (!pending.includes(handle)) pending.push(handle);
+    }
+    if (pending.length === 0) return results;
+
+    const update = (patch: (handle: string, previous?: HandleDecryptionState) => HandleDecryptionState) => {
+      setDecryptions(current => {
+        const next = { ...current };
+        for (const handle of pending) next[handle.toLowerCase()] = patch(handle, current[handle.toLowerCase()]);
+        return next;
+      });
+    };
+
+    setIsDecrypting(true);
+    // A handle being reloaded keeps showing its previous value
+    update((_handle, previous) => ({ ...previous, isDecrypting: true, error: undefined }));
+
+    try {
+      const values = await batchDecryptValues(pending, contractAddress, signer);
+      // The account or chain changed meanwhile: these values must not land in the next account's state
+      if (epoch.current !== startedIn) {
+        throw new Error('The wallet account or chain changed during decryption. Decrypt again.');
+      }
+      for (const handle of pending) {
+        cache.current.set(handle.toLowerCase(), { userAddress, value: values[handle] });
+        results[handle] = values[handle];
+      }
+      update(handle => ({ isDecrypting: false, value: values[handle] }));
+      return results;
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      const message = fhevmError.message || 'User decryption failed';
+      setError(message);
+      if (epoch.current === startedIn) update(() => ({ isDecrypting: false, error: message }));
+      throw fhevmError;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [assertReady, clearCache]);
+
   return {
     verifyDecryption,
+    userDecrypt,
+    decryptions,
+    getDecryption: (handle: string): HandleDecryptionState | undefined => decryptions[handle.toLowerCase()],
+    clearCache,
     isDecrypting,
     error,
+    relayerStatus,
+    isRelayerUnavailable,
   };
 }
 
-
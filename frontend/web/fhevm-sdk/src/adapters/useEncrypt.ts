@@ -2,32 +2,59 @@
  * Wagmi-like hook for encryption operations
  */
 
-import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { useState, useCallback, useRef } from 'react';
+import { createEncryptedInput, toFhevmError, type EncryptionProgress } from '../core/index.js';
+import { useRelayerStatus } from './useRelayerStatus.js';
+import { useFhevmGuard } from './FhevmProvider.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
   const [error, setError] = useState<string>('');
+  // Degraded mode: the circuit is open and relayer calls fail fast
+  const { status: relayerStatus, isRelayerUnavailable } = useRelayerStatus();
+  const [progress, setProgress] = useState<EncryptionProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Under an FhevmProvider, refuse to encrypt while the instance is being rebuilt
+  const assertReady = useFhevmGuard();
 
   const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
     setIsEncrypting(true);
     setError('');
+    setProgress(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      assertReady();
+      const result = await createEncryptedInput(contractAddress, userAddress, value, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
       return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message || 'Encryption failed');
+      throw fhevmError;
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsEncrypting(false);
     }
+  }, [assertReady]);
+
+  // Stops a queued or running encryption; its promise rejects with an AbortError
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
   return {
     encrypt,
+    cancel,
     isEncrypting,
+    progress,
     error,
+    relayerStatus,
+    isRelayerUnavailable,
   };
 }
 
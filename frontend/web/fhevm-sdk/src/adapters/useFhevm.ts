@@ -3,35 +3,63 @@
  */
 
 import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { getDefaultClient, initializeFheInstance, type FhevmClientConfig, type WasmLoadProgress } from '../core/index.js';
+import { useFhevmContext } from './FhevmProvider.js';
 
 export function useFhevm() {
+  // Under an FhevmProvider every component shares its instance instead of initializing its own
+  const context = useFhevmContext();
   const [instance, setInstance] = useState<any>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
   const [error, setError] = useState<string>('');
+  const [progress, setProgress] = useState<WasmLoadProgress | null>(null);
 
-  const initialize = useCallback(async () => {
+  const initialize = useCallback(async (config?: FhevmClientConfig) => {
     setStatus('loading');
     setError('');
     
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await initializeFheInstance({
+        ...config,
+        wasm: {
+          ...config?.wasm,
+          onProgress: (wasmProgress) => {
+            setProgress(wasmProgress);
+            config?.wasm?.onProgress?.(wasmProgress);
+          },
+        },
+      });
       setInstance(fheInstance);
       setStatus('ready');
-      console.log('✅ FHEVM initialized');
+      getDefaultClient().getLogger().info('✅ FHEVM initialized');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
       setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
+      getDefaultClient().getLogger().error('❌ FHEVM initialization failed:', err);
     }
   }, []);
 
+  if (context) {
+    return {
+      instance: context.instance,
+      status: context.status,
+      error: context.error,
+      progress: context.progress,
+      initialize: context.reinitialize,
+      isInitialized: context.status === 'ready',
+      isTransitioning: context.isTransitioning,
+    };
+  }
+
   return {
     instance,
     status,
     error,
+    // WASM asset download / initialization progress
+    progress,
     initialize,
     isInitialized: status === 'ready',
+    isTransitioning: false,
   };
 }
 
@@ -0,0 +1,33 @@
+/**
+ * Wagmi-like hook for relayer health (circuit breaker state)
+ */
+
+import { useState, useEffect } from 'react';
+import { getDefaultClient, type RelayerStatus } from '../core/index.js';
+
+export function useRelayerStatus() {
+  const [relayerStatus, setRelayerStatus] = useState<RelayerStatus>(() => getDefaultClient().getRelayerStatus());
+
+  useEffect(() => {
+    const client = getDefaultClient();
+    setRelayerStatus(client.getRelayerStatus());
+    const unsubscribe = client.onRelayerStatusChange(setRelayerStatus);
+
+    // An open circuit turns half-open on its own, without an event
+    const retryAt = relayerStatus.retryAt;
+    const timer = retryAt
+      ? setTimeout(() => setRelayerStatus(client.getRelayerStatus()), Math.max(0, retryAt - Date.now()))
+      : undefined;
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [relayerStatus.retryAt]);
+
+  return {
+    ...relayerStatus,
+    isRelayerUnavailable: relayerStatus.status === 'RELAYER_UNAVAILABLE',
+    reset: () => getDefaultClient().getResilience().reset(),
+  };
+}
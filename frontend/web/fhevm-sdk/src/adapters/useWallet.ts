@@ -3,6 +3,15 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
+import {
+  getDefaultClient,
+  getSelectedWallet,
+  getWalletProvider,
+  getWalletProviders,
+  onWalletsChange,
+  selectWallet as selectWalletProvider,
+  type WalletInfo,
+} from '../core/index.js';
 
 export function useWallet() {
   const [address, setAddress] = useState<string>('');
@@ -10,15 +19,29 @@ export function useWallet() {
   const [chainId, setChainId] = useState<number>(0);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string>('');
+  // Wallets found through EIP-6963 (plus window.ethereum) and the one SDK calls go to
+  const [wallets, setWallets] = useState<WalletInfo[]>(() => getWalletProviders().map(wallet => wallet.info));
+  const [selectedWallet, setSelectedWallet] = useState<WalletInfo | null>(() => getSelectedWallet()?.info ?? null);
+  const [walletProvider, setWalletProvider] = useState(() => getWalletProvider());
+
+  useEffect(() => {
+    const update = () => {
+      setWallets(getWalletProviders().map(wallet => wallet.info));
+      setSelectedWallet(getSelectedWallet()?.info ?? null);
+      setWalletProvider(getWalletProvider());
+    };
+    update();
+    return onWalletsChange(update);
+  }, []);
 
   // Listen for chain changes
   useEffect(() => {
-    if (!window.ethereum) return;
+    if (!walletProvider) return;
 
     const handleChainChanged = async (chainIdHex: string) => {
       const newChainId = parseInt(chainIdHex, 16);
       setChainId(newChainId);
-      console.log('🔄 Chain changed to:', newChainId);
+      getDefaultClient().getLogger().debug('🔄 Chain changed to:', newChainId);
     };
 
     const handleAccountsChanged = (accounts: string[]) => {
@@ -32,37 +55,49 @@ export function useWallet() {
       }
     };
 
-    window.ethereum.on('chainChanged', handleChainChanged);
-    window.ethereum.on('accountsChanged', handleAccountsChanged);
+    walletProvider.on('chainChanged', handleChainChanged);
+    walletProvider.on('accountsChanged', handleAccountsChanged);
 
     return () => {
-      window.ethereum?.removeListener('chainChanged', handleChainChanged);
-      window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
+      walletProvider.removeListener('chainChanged', handleChainChanged);
+      walletProvider.removeListener('accountsChanged', handleAccountsChanged);
     };
-  }, []);
+  }, [walletProvider]);
+
+  /**
+   * Connect the selected wallet, or first select the one with this uuid / rdns
+   */
+  const connect = useCallback(async (walletId?: string) => {
+    setError('');
+
+    try {
+      if (walletId) selectWalletProvider(walletId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Wallet not found');
+      return;
+    }
 
-  const connect = useCallback(async () => {
-    if (!window.ethereum) {
-      setError('MetaMask not found. Please install MetaMask.');
+    const provider = getWalletProvider();
+    if (!provider) {
+      setError('No wallet found. Please install MetaMask or another browser wallet.');
       return;
     }
 
     setIsConnecting(true);
-    setError('');
 
     try {
-      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      const accounts = await provider.request({ method: 'eth_requestAccounts' });
       const account = accounts[0];
       setAddress(account);
       setIsConnected(true);
 
-      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+      const chainId = await provider.request({ method: 'eth_chainId' });
       setChainId(parseInt(chainId, 16));
 
-      console.log('✅ Wallet connected:', account);
+      getDefaultClient().getLogger().debug('✅ Wallet connected');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Connection failed');
-      console.error('❌ Wallet connection failed:', err);
+      getDefaultClient().getLogger().error('❌ Wallet connection failed:', err);
     } finally {
       setIsConnecting(false);
     }
@@ -73,10 +108,28 @@ export function useWallet() {
     setIsConnected(false);
     setChainId(0);
     setError('');
-    console.log('🔌 Wallet disconnected');
+    getDefaultClient().getLogger().debug('🔌 Wallet disconnected');
+  }, []);
+
+  /**
+   * Switch wallets (remembered for the next visit); connect() again to use it
+   */
+  const selectWallet = useCallback((walletId: string | null) => {
+    try {
+      selectWalletProvider(walletId);
+      setAddress('');
+      setIsConnected(false);
+      setChainId(0);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Wallet not found');
+    }
   }, []);
 
   return {
+    wallets,
+    selectedWallet,
+    selectWallet,
     address,
     isConnected,
     chainId,
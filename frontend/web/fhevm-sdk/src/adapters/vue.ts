@@ -0,0 +1,550 @@
+/**
+ * Vue Adapter - Universal FHEVM SDK
+ * Vue 3 composables with the same state shape as the React hooks (each value a ref).
+ * They drive the same default FhevmClient, so React and Vue code share one instance.
+ *
+ * Import from '@fhevm-sdk/vue' so React-only apps never load vue.
+ */
+
+import { ref, computed, shallowRef, watch, onUnmounted } from 'vue';
+import { ethers } from 'ethers';
+import {
+  batchDecryptValues,
+  createEncryptedInput,
+  FhevmContract,
+  getDefaultClient,
+  getSelectedWallet,
+  getWalletProvider,
+  getWalletProviders,
+  initializeFheInstance,
+  onWalletsChange,
+  publicDecryptV09,
+  selectWallet as selectWalletProvider,
+  toFhevmError,
+  type ClearValue,
+  type Eip1193Provider,
+  type EncryptionProgress,
+  type FhevmContractAbi,
+  type FhevmClientConfig,
+  type RelayerStatus,
+  type WalletInfo,
+  type WasmLoadProgress,
+} from '../core/index.js';
+import type { HandleDecryptionState } from './useDecrypt.js';
+import { resolveSigner } from './signer.js';
+
+// Plain value or getter, so composables can follow props and refs: useContractVue(() => props.address, abi)
+type MaybeGetter<T> = T | (() => T);
+
+function resolve<T>(value: MaybeGetter<T>): T {
+  return typeof value === 'function' ? (value as () => T)() : value;
+}
+
+/**
+ * Vue composable for the FHEVM instance
+ */
+export function useFhevmVue() {
+  const client = getDefaultClient();
+  const instance = shallowRef<any>(client.getInstance());
+  const status = ref<'idle' | 'loading' | 'ready' | 'error'>(client.isInitialized ? 'ready' : 'idle');
+  const error = ref<string>('');
+  const progress = shallowRef<WasmLoadProgress | null>(null);
+  // True while an initialized client is rebuilt (e.g. for another network), like FhevmProvider's isTransitioning
+  const isTransitioning = ref(false);
+
+  const initialize = async (config?: FhevmClientConfig) => {
+    const current = getDefaultClient();
+    // Drop the old instance first: calls made from here on fail instead of using the old network
+    const rebuilding = current.isInitialized;
+    if (rebuilding) {
+      current.dispose();
+      instance.value = null;
+    }
+    status.value = 'loading';
+    error.value = '';
+    isTransitioning.value = rebuilding;
+
+    try {
+      instance.value = await initializeFheInstance({
+        ...config,
+        wasm: {
+          ...config?.wasm,
+          onProgress: (wasmProgress) => {
+            progress.value = wasmProgress;
+            config?.wasm?.onProgress?.(wasmProgress);
+          },
+        },
+      });
+      status.value = 'ready';
+      getDefaultClient().getLogger().info('✅ FHEVM initialized');
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      status.value = 'error';
+      getDefaultClient().getLogger().error('❌ FHEVM initialization failed:', err);
+    } finally {
+      isTransitioning.value = false;
+    }
+  };
+
+  return {
+    instance,
+    status,
+    error,
+    progress,
+    initialize,
+    isInitialized: computed(() => status.value === 'ready'),
+    isTransitioning,
+  };
+}
+
+/**
+ * Vue composable for relayer health (circuit breaker state)
+ */
+export function useRelayerStatusVue() {
+  const client = getDefaultClient();
+  const relayerStatus = shallowRef<RelayerStatus>(client.getRelayerStatus());
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const update = (next: RelayerStatus) => {
+    relayerStatus.value = next;
+    if (timer) clearTimeout(timer);
+    // An open circuit turns half-open on its own, without an event
+    if (next.retryAt) {
+      timer = setTimeout(() => update(client.getRelayerStatus()), Math.max(0, next.retryAt - Date.now()));
+    }
+  };
+
+  const unsubscribe = client.onRelayerStatusChange(update);
+  update(client.getRelayerStatus());
+
+  onUnmounted(() => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  });
+
+  return {
+    status: computed(() => relayerStatus.value.status),
+    circuit: computed(() => relayerStatus.value.circuit),
+    consecutiveFailures: computed(() => relayerStatus.value.consecutiveFailures),
+    retryAt: computed(() => relayerStatus.value.retryAt),
+    isRelayerUnavailable: computed(() => relayerStatus.value.status === 'RELAYER_UNAVAILABLE'),
+    reset: () => client.getResilience().reset(),
+  };
+}
+
+/**
+ * Vue composable for encryption operations
+ */
+export function useEncryptVue() {
+  const isEncrypting = ref(false);
+  const error = ref<string>('');
+  const progress = shallowRef<EncryptionProgress | null>(null);
+  const { status: relayerStatus, isRelayerUnavailable } = useRelayerStatusVue();
+  let controller: AbortController | null = null;
+
+  const encrypt = async (contractAddress: string, userAddress: string, value: number) => {
+    isEncrypting.value = true;
+    error.value = '';
+    progress.value = null;
+
+    const current = new AbortController();
+    controller = current;
+
+    try {
+      return await createEncryptedInput(contractAddress, userAddress, value, {
+        signal: current.signal,
+        onProgress: (next) => {
+          progress.value = next;
+        },
+      });
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      error.value = fhevmError.message || 'Encryption failed';
+      throw fhevmError;
+    } finally {
+      if (controller === current) controller = null;
+      isEncrypting.value = false;
+    }
+  };
+
+  // Stops a queued or running encryption; its promise rejects with an AbortError
+  const cancel = () => {
+    controller?.abort();
+  };
+
+  return {
+    encrypt,
+    cancel,
+    isEncrypting,
+    progress,
+    error,
+    relayerStatus,
+    isRelayerUnavailable,
+  };
+}
+
+/**
+ * Vue composable for decryption operations - FHE v0.9
+ */
+export function useDecryptVue() {
+  const isDecrypting = ref(false);
+  const error = ref<string>('');
+  // Per-handle state of user decryptions, keyed by lowercase handle
+  const decryptions = shallowRef<Record<string, HandleDecryptionState>>({});
+  // Clear values stay in this component's memory only, tied to the account that decrypted them
+  const cache = new Map<string, { userAddress: string; value: ClearValue }>();
+  // Account the values in `decryptions` belong to, and a counter bumped whenever they are dropped
+  let owner: string | null = null;
+  let epoch = 0;
+  const { status: relayerStatus, isRelayerUnavailable } = useRelayerStatusVue();
+
+  // Forget every decrypted value, e.g. on logout
+  const clearCache = () => {
+    cache.clear();
+    owner = null;
+    epoch++;
+    decryptions.value = {};
+  };
+
+  // Plaintexts belong to one account on one chain: drop them when the wallet, its account or its chain changes
+  let walletProvider: Eip1193Provider | undefined;
+  const watchWallet = (next: Eip1193Provider | undefined) => {
+    if (next === walletProvider) return;
+    walletProvider?.removeListener('accountsChanged', clearCache);
+    walletProvider?.removeListener('chainChanged', clearCache);
+    if (walletProvider) clearCache();
+    walletProvider = next;
+    walletProvider?.on('accountsChanged', clearCache);
+    walletProvider?.on('chainChanged', clearCache);
+  };
+
+  watchWallet(getWalletProvider());
+  const stopWatchingWallets = onWalletsChange(() => watchWallet(getWalletProvider()));
+
+  onUnmounted(() => {
+    stopWatchingWallets();
+    walletProvider?.removeListener('accountsChanged', clearCache);
+    walletProvider?.removeListener('chainChanged', clearCache);
+  });
+
+  const verifyDecryption = async (
+    handles: string[],
+    contractAddress: string,
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+  ) => {
+    isDecrypting.value = true;
+    error.value = '';
+
+    try {
+      const decryptionResult = await publicDecryptV09(handles);
+
+      const tx = await verifyFunction(
+        decryptionResult.abiEncodedClearValues,
+        decryptionResult.decryptionProof
+      );
+
+      const receipt = await tx.wait();
+
+      return {
+        decryptionResult,
+        transactionReceipt: receipt
+      };
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      error.value = fhevmError.message || 'Decryption verification failed';
+      throw fhevmError;
+    } finally {
+      isDecrypting.value = false;
+    }
+  };
+
+  /**
+   * Reveal values to the connected account only (EIP-712 user decryption, nothing goes on-chain).
+   * Cached handles are answered from memory; the others share one relayer request.
+   */
+  const userDecrypt = async (
+    handles: string[],
+    contractAddress: string,
+    options: { force?: boolean } = {}
+  ): Promise<Record<string, ClearValue>> => {
+    error.value = '';
+
+    let signer: any;
+    let userAddress: string;
+    try {
+      signer = await resolveSigner();
+      userAddress = (await signer.getAddress()).toLowerCase();
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      error.value = fhevmError.message || 'No signer available';
+      throw fhevmError;
+    }
+
+    // A signer switched without wallet events (e.g. setDefaultClient) must not see the previous account's values
+    if (owner !== null && owner !== userAddress) clearCache();
+    owner = userAddress;
+    const startedIn = epoch;
+
+    const results: Record<string, ClearValue> = {};
+    const pending: string[] = [];
+    for (const handle of handles) {
+      const cached = cache.get(handle.toLowerCase());
+      if (cached && cached.userAddress === userAddress && !options.force) results[handle] = cached.value;
+      else if (!pending.includes(handle)) pending.push(handle);
+    }
+    if (pending.length === 0) return results;
+
+    const update = (patch: (handle: string, previous?: HandleDecryptionState) => HandleDecryptionState) => {
+      const next = { ...decryptions.value };
+      for (const handle of pending) next[handle.toLowerCase()] = patch(handle, decryptions.value[handle.toLowerCase()]);
+      decryptions.value = next;
+    };
+
+    isDecrypting.value = true;
+    // A handle being reloaded keeps showing its previous value
+    update((_handle, previous) => ({ ...previous, isDecrypting: true, error: undefined }));
+
+    try {
+      const values = await batchDecryptValues(pending, contractAddress, signer);
+      // The account or chain changed meanwhile: these values must not land in the next account's state
+      if (epoch !== startedIn) {
+        throw new Error('The wallet account or chain changed during decryption. Decrypt again.');
+      }
+      for (const handle of pending) {
+        cache.set(handle.toLowerCase(), { userAddress, value: values[handle] });
+        results[handle] = values[handle];
+      }
+      update(handle => ({ isDecrypting: false, value: values[handle] }));
+      return results;
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      const message = fhevmError.message || 'User decryption failed';
+      error.value = message;
+      if (epoch === startedIn) update(() => ({ isDecrypting: false, error: message }));
+      throw fhevmError;
+    } finally {
+      isDecrypting.value = false;
+    }
+  };
+
+  return {
+    verifyDecryption,
+    userDecrypt,
+    decryptions,
+    getDecryption: (handle: string): HandleDecryptionState | undefined => decryptions.value[handle.toLowerCase()],
+    clearCache,
+    isDecrypting,
+    error,
+    relayerStatus,
+    isRelayerUnavailable,
+  };
+}
+
+/**
+ * Vue composable for wallet connection
+ */
+export function useWalletVue() {
+  const address = ref<string>('');
+  const isConnected = ref(false);
+  const chainId = ref<number>(0);
+  const isConnecting = ref(false);
+  const error = ref<string>('');
+
+  const handleChainChanged = (chainIdHex: string) => {
+    chainId.value = parseInt(chainIdHex, 16);
+    getDefaultClient().getLogger().debug('🔄 Chain changed to:', chainId.value);
+  };
+
+  const handleAccountsChanged = (accounts: string[]) => {
+    if (accounts.length === 0) {
+      // User disconnected
+      address.value = '';
+      isConnected.value = false;
+      chainId.value = 0;
+    } else {
+      address.value = accounts[0];
+    }
+  };
+
+  // Wallets found through EIP-6963 (plus window.ethereum); events follow the selected one
+  const wallets = shallowRef<WalletInfo[]>(getWalletProviders().map(wallet => wallet.info));
+  const selectedWallet = shallowRef<WalletInfo | null>(getSelectedWallet()?.info ?? null);
+  let walletProvider: Eip1193Provider | undefined;
+
+  const listenTo = (next: Eip1193Provider | undefined) => {
+    if (next === walletProvider) return;
+    walletProvider?.removeListener('chainChanged', handleChainChanged);
+    walletProvider?.removeListener('accountsChanged', handleAccountsChanged);
+    walletProvider = next;
+    walletProvider?.on('chainChanged', handleChainChanged);
+    walletProvider?.on('accountsChanged', handleAccountsChanged);
+  };
+
+  listenTo(getWalletProvider());
+  const stopWatchingWallets = onWalletsChange(() => {
+    wallets.value = getWalletProviders().map(wallet => wallet.info);
+    selectedWallet.value = getSelectedWallet()?.info ?? null;
+    listenTo(getWalletProvider());
+  });
+
+  onUnmounted(() => {
+    stopWatchingWallets();
+    listenTo(undefined);
+  });
+
+  const connect = async (walletId?: string) => {
+    error.value = '';
+
+    try {
+      if (walletId) selectWalletProvider(walletId);
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Wallet not found';
+      return;
+    }
+
+    const provider = getWalletProvider();
+    if (!provider) {
+      error.value = 'No wallet found. Please install MetaMask or another browser wallet.';
+      return;
+    }
+
+    isConnecting.value = true;
+
+    try {
+      const accounts = await provider.request({ method: 'eth_requestAccounts' });
+      address.value = accounts[0];
+      isConnected.value = true;
+
+      const chainIdHex = await provider.request({ method: 'eth_chainId' });
+      chainId.value = parseInt(chainIdHex, 16);
+
+      getDefaultClient().getLogger().debug('✅ Wallet connected');
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Connection failed';
+      getDefaultClient().getLogger().error('❌ Wallet connection failed:', err);
+    } finally {
+      isConnecting.value = false;
+    }
+  };
+
+  const disconnect = () => {
+    address.value = '';
+    isConnected.value = false;
+    chainId.value = 0;
+    error.value = '';
+    getDefaultClient().getLogger().debug('🔌 Wallet disconnected');
+  };
+
+  const selectWallet = (walletId: string | null) => {
+    try {
+      selectWalletProvider(walletId);
+      disconnect();
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Wallet not found';
+    }
+  };
+
+  return {
+    wallets,
+    selectedWallet,
+    selectWallet,
+    address,
+    isConnected,
+    chainId,
+    isConnecting,
+    error,
+    connect,
+    disconnect,
+  };
+}
+
+/**
+ * Vue composable for contract interactions, same instances as useContract: read-only, signed, and the
+ * auto-encrypting writeContract. Rebuilt when the address, the ABI contents, the wallet, its account or its chain change.
+ */
+export function useContractVue(address: MaybeGetter<string>, abi: MaybeGetter<FhevmContractAbi>) {
+  // ethers contracts must not be made deeply reactive
+  const contract = shallowRef<ethers.Contract | null>(null);
+  const signerContract = shallowRef<ethers.Contract | null>(null);
+  const writeContract = shallowRef<FhevmContract | null>(null);
+  const account = ref<string | null>(null);
+  const isReady = ref(false);
+  const error = ref<string>('');
+  const walletProvider = shallowRef<Eip1193Provider | undefined>(getWalletProvider());
+
+  const stopWatchingWallets = onWalletsChange(() => {
+    walletProvider.value = getWalletProvider();
+  });
+  onUnmounted(stopWatchingWallets);
+
+  // Only the ABI's contents decide when to rebuild, so inline ABIs are fine
+  watch(
+    (): [Eip1193Provider | undefined, string, string] => [walletProvider.value, resolve(address), JSON.stringify(resolve(abi))],
+    ([currentProvider, currentAddress], _previous, onCleanup) => {
+      // Instances for the previous wallet or address must not outlive it, or writes go out with a stale signer
+      const reset = () => {
+        contract.value = null;
+        signerContract.value = null;
+        writeContract.value = null;
+        account.value = null;
+        isReady.value = false;
+      };
+
+      reset();
+      const currentAbi = resolve(abi);
+      if (!currentProvider || !currentAddress || !currentAbi) return;
+
+      let generation = 0;
+
+      const build = async () => {
+        const current = ++generation;
+        try {
+          // A BrowserProvider is pinned to one chain, so every rebuild gets a fresh one
+          const provider = new ethers.BrowserProvider(currentProvider);
+          const accounts: string[] = await currentProvider.request({ method: 'eth_accounts' });
+          const nextAccount = accounts?.[0] ?? null;
+          const signer = nextAccount ? await provider.getSigner(nextAccount) : null;
+          if (current !== generation) return;
+
+          contract.value = new ethers.Contract(currentAddress, currentAbi as ethers.InterfaceAbi, provider);
+          signerContract.value = signer ? new ethers.Contract(currentAddress, currentAbi as ethers.InterfaceAbi, signer) : null;
+          writeContract.value = signer ? FhevmContract.create(currentAddress, currentAbi, signer) : null;
+          account.value = nextAccount;
+          isReady.value = true;
+          error.value = '';
+        } catch (err) {
+          if (current !== generation) return;
+          error.value = err instanceof Error ? err.message : 'Contract setup failed';
+          isReady.value = false;
+        }
+      };
+
+      const handleChange = () => {
+        reset();
+        void build();
+      };
+
+      void build();
+      currentProvider.on('accountsChanged', handleChange);
+      currentProvider.on('chainChanged', handleChange);
+
+      onCleanup(() => {
+        // Drop results of builds still running
+        generation++;
+        currentProvider.removeListener('accountsChanged', handleChange);
+        currentProvider.removeListener('chainChanged', handleChange);
+      });
+    },
+    { immediate: true }
+  );
+
+  return {
+    contract,
+    readContract: contract,
+    signerContract,
+    writeContract,
+    account,
+    isReady,
+    error,
+  };
+}
@@ -0,0 +1,362 @@
+#!/usr/bin/env node
+/**
+ * MedVault CLI - Universal SDK
+ * medvault <command> [args] --contract 0x... [--keystore wallet.json] [--json]
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { ethers } from 'ethers';
+import {
+  batchDecryptValues,
+  createEncryptedInput,
+  initializeFheInstance,
+  publicDecryptV09,
+  resolveNetwork,
+  setDefaultClient,
+  FhevmClient,
+  AclDeniedError,
+  isFhevmError,
+  toFhevmError,
+  type FhevmLogger,
+  type FhevmMode,
+  type FhevmNetworkName,
+} from '../core/index.js';
+import { MEDVAULT_ABI } from './medvaultAbi.js';
+
+const USAGE = `Usage: medvault <command> [args] [options]
+
+Commands:
+  create <file.json>        Encrypt the record's value and store it (needs --keystore)
+  list                      List record ids
+  get <recordId>            Show a record and its encrypted handle
+  decrypt <recordId...>     User-decrypt record values (needs --keystore and an ACL grant, see below)
+  verify <recordId>         Public-decrypt a record and submit verifyComputation (needs --keystore)
+
+Options:
+  --contract <address>      MedVaultFHE address (env MEDVAULT_CONTRACT)
+  --network <name>          sepolia | hardhat, defaults to sepolia
+  --rpc-url <url>           JSON-RPC endpoint (env MEDVAULT_RPC_URL), defaults to the network's
+  --mock                    Use the mock coprocessor of a local Hardhat fhevm node
+  --keystore <file>         Encrypted JSON wallet signing transactions and decryptions
+  --password-file <file>    Keystore password (or env MEDVAULT_KEYSTORE_PASSWORD)
+  --json                    Print JSON instead of a table
+  --verbose                 Log SDK progress to stderr
+  -h, --help                Show this help
+
+Record file for create:
+  { "recordId": "rec-1", "patientId": "p-42", "value": 120, "recordType": 1, "accessLevel": 2, "metadata": "..." }
+
+User decryption:
+  decrypt only works for an account the FHEVM ACL allows on the record's ciphertext (FHE.allow).
+  MedVaultFHE grants the contract itself and public decryption, not the patient: use verify for
+  the public value, or a deployment that grants the caller access.`;
+
+// FHEVM ACL: whether an account may use (and so user-decrypt) a ciphertext handle
+const ACL_ABI = ['function persistAllowed(bytes32 handle, address account) view returns (bool)'];
+
+interface MedicalRecordInput {
+  recordId: string;
+  patientId: string;
+  // Clear uint32 value, encrypted before it leaves the machine
+  value: number;
+  recordType: number;
+  accessLevel: number;
+  metadata?: string | Record<string, unknown>;
+}
+
+type Row = Record<string, unknown>;
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    contract: { type: 'string' },
+    network: { type: 'string', default: 'sepolia' },
+    'rpc-url': { type: 'string' },
+    mock: { type: 'boolean', default: false },
+    keystore: { type: 'string' },
+    'password-file': { type: 'string' },
+    json: { type: 'boolean', default: false },
+    verbose: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+const [command, ...args] = positionals;
+
+if (options.help || !command) {
+  console.log(USAGE);
+  process.exit(options.help ? 0 : 1);
+}
+
+const network = options.network as FhevmNetworkName;
+const mode: FhevmMode = options.mock ? 'mock' : 'relayer';
+const rpcUrl = options['rpc-url'] ?? process.env.MEDVAULT_RPC_URL;
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+async function main() {
+  if (options.verbose) {
+    setDefaultClient(new FhevmClient({ logger: stderrLogger('[medvault]') }));
+  }
+
+  try {
+    const output = await run(command, args);
+    print(output);
+    process.exit(0);
+  } catch (error) {
+    const fhevmError = toFhevmError(error, MEDVAULT_ABI);
+    const code = isFhevmError(fhevmError) ? ` [${fhevmError.code}]` : '';
+    console.error(`medvault: ${fhevmError.message}${code}`);
+    process.exit(1);
+  }
+}
+
+async function run(name: string, params: string[]): Promise<Row | Row[]> {
+  switch (name) {
+    case 'create':
+      return createRecord(requireArg(params[0], 'create needs a record file'));
+    case 'list':
+      return listRecords();
+    case 'get':
+      return getRecord(requireArg(params[0], 'get needs a record id'));
+    case 'decrypt':
+      if (params.length === 0) throw new Error('decrypt needs at least one record id');
+      return decryptRecords(params);
+    case 'verify':
+      return verifyRecord(requireArg(params[0], 'verify needs a record id'));
+    default:
+      throw new Error(`Unknown command "${name}". Run medvault --help.`);
+  }
+}
+
+async function createRecord(file: string): Promise<Row> {
+  const record = parseRecord(JSON.parse(await readFile(file, 'utf8')));
+  const signer = await loadSigner();
+  const contract = connectContract(signer);
+  const contractAddress = await contract.getAddress();
+  const signerAddress = await signer.getAddress();
+
+  await initializeFheInstance({ mode, network, rpcUrl });
+  const encrypted = await createEncryptedInput(contractAddress, signerAddress, record.value);
+
+  const metadata = typeof record.metadata === 'string' ? record.metadata : JSON.stringify(record.metadata ?? {});
+  const tx = await contract.createMedicalRecord(
+    record.recordId,
+    record.patientId,
+    encrypted.encryptedData,
+    encrypted.proof,
+    record.recordType,
+    record.accessLevel,
+    metadata
+  );
+  const receipt = await tx.wait();
+
+  return {
+    recordId: record.recordId,
+    patient: signerAddress,
+    txHash: tx.hash,
+    blockNumber: receipt?.blockNumber,
+  };
+}
+
+async function listRecords(): Promise<Row[]> {
+  const contract = connectContract();
+  const ids: string[] = await contract.getAllRecordIds();
+  return ids.map(recordId => ({ recordId }));
+}
+
+async function getRecord(recordId: string): Promise<Row> {
+  const contract = connectContract();
+  const [record, handle] = await Promise.all([
+    contract.getMedicalRecord(recordId),
+    contract.getEncryptedData(recordId),
+  ]);
+
+  return {
+    recordId,
+    patientId: record.patientId,
+    recordType: record.recordType,
+    accessLevel: record.accessLevel,
+    metadata: record.metadata,
+    patientAddress: record.patientAddress,
+    createdAt: new Date(Number(record.timestamp) * 1000).toISOString(),
+    isProcessed: record.isProcessed,
+    decryptedResult: record.isProcessed ? record.decryptedResult : null,
+    handle,
+  };
+}
+
+async function decryptRecords(recordIds: string[]): Promise<Row[]> {
+  const signer = await loadSigner();
+  const contract = connectContract(signer);
+  const signerAddress = await signer.getAddress();
+  const handles: string[] = await Promise.all(recordIds.map(recordId => contract.getEncryptedData(recordId)));
+
+  // Fail before the EIP-712 signature and the relayer round trip when the ACL would refuse anyway
+  const denied = await findUnauthorizedRecords(recordIds, handles, signerAddress);
+  if (denied.length > 0) throw aclDenied(signerAddress, denied);
+
+  await initializeFheInstance({ mode, network, rpcUrl });
+  let clearValues: Record<string, unknown>;
+  try {
+    // One EIP-712 signature covers every handle
+    clearValues = await batchDecryptValues(handles, await contract.getAddress(), signer);
+  } catch (error) {
+    const fhevmError = toFhevmError(error);
+    if (!isFhevmError(fhevmError, 'ACL_DENIED')) throw fhevmError;
+    throw aclDenied(signerAddress, recordIds, error);
+  }
+
+  return recordIds.map((recordId, index) => ({
+    recordId,
+    handle: handles[index],
+    value: clearValues[handles[index]],
+  }));
+}
+
+/**
+ * Records whose ciphertext the ACL does not grant to `account`. Skipped (empty) when the ACL cannot be read,
+ * e.g. a mock node with other host contract addresses: the relayer still refuses with ACL_DENIED.
+ */
+async function findUnauthorizedRecords(recordIds: string[], handles: string[], account: string): Promise<string[]> {
+  const acl = new ethers.Contract(resolveNetwork(network).aclContractAddress, ACL_ABI, getProvider());
+  try {
+    const allowed: boolean[] = await Promise.all(handles.map(handle => acl.persistAllowed(handle, account)));
+    return recordIds.filter((_, index) => !allowed[index]);
+  } catch {
+    return [];
+  }
+}
+
+function aclDenied(account: string, recordIds: string[], cause?: unknown): AclDeniedError {
+  return new AclDeniedError(
+    `${account} is not allowed to decrypt ${recordIds.join(', ')}: the FHEVM ACL has no FHE.allow grant for it on the ` +
+      "record's ciphertext. MedVaultFHE only grants the contract itself and public decryption; use `medvault verify` for the public value.",
+    cause
+  );
+}
+
+async function verifyRecord(recordId: string): Promise<Row> {
+  const signer = await loadSigner();
+  const contract = connectContract(signer);
+  const handle: string = await contract.getEncryptedData(recordId);
+
+  await initializeFheInstance({ mode, network, rpcUrl });
+  const result = await publicDecryptV09([handle]);
+
+  const tx = await contract.verifyComputation(recordId, result.abiEncodedClearValues, result.decryptionProof);
+  const receipt = await tx.wait();
+
+  return {
+    recordId,
+    handle,
+    result: result.clearValues[handle],
+    txHash: tx.hash,
+    blockNumber: receipt?.blockNumber,
+  };
+}
+
+function connectContract(signer?: ethers.Signer): ethers.Contract {
+  const address = options.contract ?? process.env.MEDVAULT_CONTRACT;
+  if (!address || !ethers.isAddress(address)) {
+    throw new Error('Pass the MedVaultFHE address with --contract or MEDVAULT_CONTRACT.');
+  }
+  return new ethers.Contract(address, MEDVAULT_ABI, signer ?? getProvider());
+}
+
+function getProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    const config = resolveNetwork(network);
+    const url = rpcUrl ?? config.rpcUrl;
+    if (!url) throw new Error(`Pass the JSON-RPC endpoint for "${network}" with --rpc-url or MEDVAULT_RPC_URL.`);
+    // A known chain skips ethers' network detection, whose retry messages go to stdout
+    provider = new ethers.JsonRpcProvider(url, config.chainId, { staticNetwork: true });
+  }
+  return provider;
+}
+
+/**
+ * Decrypt the keystore wallet; the password never comes from argv, where other users can read it
+ */
+async function loadSigner(): Promise<ethers.Signer> {
+  if (!options.keystore) throw new Error('This command signs: pass an encrypted JSON wallet with --keystore.');
+
+  const password = options['password-file']
+    ? (await readFile(options['password-file'], 'utf8')).trimEnd()
+    : process.env.MEDVAULT_KEYSTORE_PASSWORD;
+  if (password === undefined) {
+    throw new Error('Pass the keystore password with --password-file or MEDVAULT_KEYSTORE_PASSWORD.');
+  }
+
+  const wallet = await ethers.Wallet.fromEncryptedJson(await readFile(options.keystore, 'utf8'), password);
+  return wallet.connect(getProvider());
+}
+
+function parseRecord(input: any): MedicalRecordInput {
+  for (const field of ['recordId', 'patientId'] as const) {
+    if (typeof input?.[field] !== 'string' || input[field] === '') {
+      throw new Error(`Record file: "${field}" must be a non-empty string.`);
+    }
+  }
+  if (!Number.isInteger(input.value) || input.value < 0 || input.value > 0xffffffff) {
+    throw new Error('Record file: "value" must be an integer between 0 and 4294967295 (uint32).');
+  }
+  for (const field of ['recordType', 'accessLevel'] as const) {
+    if (!Number.isInteger(input[field]) || input[field] < 0) {
+      throw new Error(`Record file: "${field}" must be a non-negative integer.`);
+    }
+  }
+  return input;
+}
+
+function requireArg(value: string | undefined, message: string): string {
+  if (!value) throw new Error(message);
+  return value;
+}
+
+function print(output: Row | Row[]) {
+  if (options.json) {
+    console.log(JSON.stringify(output, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2));
+    return;
+  }
+  console.log(Array.isArray(output) ? formatTable(output) : formatRecord(output));
+}
+
+/**
+ * Column table for lists
+ */
+function formatTable(rows: Row[]): string {
+  if (rows.length === 0) return '(no rows)';
+
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map(row => columns.map(column => formatCell(row[column])));
+  const widths = columns.map((column, index) => Math.max(column.length, ...cells.map(cell => cell[index].length)));
+  const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd();
+
+  return [line(columns), line(widths.map(width => '-'.repeat(width))), ...cells.map(line)].join('\n');
+}
+
+/**
+ * Key / value table for a single record
+ */
+function formatRecord(row: Row): string {
+  const width = Math.max(...Object.keys(row).map(key => key.length));
+  return Object.entries(row).map(([key, value]) => `${key.padEnd(width)}  ${formatCell(value)}`).join('\n');
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '-';
+  if (value instanceof Uint8Array) return ethers.hexlify(value);
+  return String(value);
+}
+
+/**
+ * Every level goes to stderr: console.debug and console.info write to stdout, which keeps the result
+ */
+function stderrLogger(prefix: string): FhevmLogger {
+  const write = (...args: any[]) => console.error(prefix, ...args);
+  return { debug: write, info: write, warn: write, error: write };
+}
+
+await main();
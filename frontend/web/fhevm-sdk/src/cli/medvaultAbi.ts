@@ -0,0 +1,94 @@
+/**
+ * MedVault ABI - Universal SDK
+ * JSON ABI of contracts/MedVaultFHE.sol, with internalType so encrypted params stay recognizable
+ */
+
+export const MEDVAULT_ABI = [
+  {
+    type: 'event',
+    name: 'MedicalRecordCreated',
+    anonymous: false,
+    inputs: [
+      { name: 'recordId', type: 'string', internalType: 'string', indexed: true },
+      { name: 'patient', type: 'address', internalType: 'address', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ComputationVerified',
+    anonymous: false,
+    inputs: [
+      { name: 'recordId', type: 'string', internalType: 'string', indexed: true },
+      { name: 'result', type: 'uint32', internalType: 'uint32', indexed: false },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'createMedicalRecord',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'recordId', type: 'string', internalType: 'string' },
+      { name: 'patientId', type: 'string', internalType: 'string' },
+      { name: 'encryptedData', type: 'bytes32', internalType: 'externalEuint32' },
+      { name: 'inputProof', type: 'bytes', internalType: 'bytes' },
+      { name: 'recordType', type: 'uint256', internalType: 'uint256' },
+      { name: 'accessLevel', type: 'uint256', internalType: 'uint256' },
+      { name: 'metadata', type: 'string', internalType: 'string' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'verifyComputation',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'recordId', type: 'string', internalType: 'string' },
+      { name: 'abiEncodedResult', type: 'bytes', internalType: 'bytes' },
+      { name: 'computationProof', type: 'bytes', internalType: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'getEncryptedData',
+    stateMutability: 'view',
+    inputs: [{ name: 'recordId', type: 'string', internalType: 'string' }],
+    outputs: [{ name: '', type: 'bytes32', internalType: 'euint32' }],
+  },
+  {
+    type: 'function',
+    name: 'getMedicalRecord',
+    stateMutability: 'view',
+    inputs: [{ name: 'recordId', type: 'string', internalType: 'string' }],
+    outputs: [
+      { name: 'patientId', type: 'string', internalType: 'string' },
+      { name: 'recordType', type: 'uint256', internalType: 'uint256' },
+      { name: 'accessLevel', type: 'uint256', internalType: 'uint256' },
+      { name: 'metadata', type: 'string', internalType: 'string' },
+      { name: 'patientAddress', type: 'address', internalType: 'address' },
+      { name: 'timestamp', type: 'uint256', internalType: 'uint256' },
+      { name: 'isProcessed', type: 'bool', internalType: 'bool' },
+      { name: 'decryptedResult', type: 'uint32', internalType: 'uint32' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'getAllRecordIds',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'string[]', internalType: 'string[]' }],
+  },
+  {
+    type: 'function',
+    name: 'isAvailable',
+    stateMutability: 'pure',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+  },
+] as const;
+
+// Decoded event arguments, for FhevmContract<MedVaultEvents>; indexed recordIds arrive as keccak256 hashes
+export interface MedVaultEvents {
+  MedicalRecordCreated: { recordId: string; patient: string };
+  ComputationVerified: { recordId: string; result: bigint };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { planUserDecryptBatches, type HandleContractPair } from './batch.js';
+import { InvalidHandleError } from './errors.js';
+
+const EUINT32 = 4;
+const EUINT256 = 8;
+
+function makeHandle(typeId: number, n: number): string {
+  return `0x${n.toString(16).padStart(42, '0')}00${(11155111).toString(16).padStart(16, '0')}${typeId.toString(16).padStart(2, '0')}00`;
+}
+
+function contractAddress(n: number): string {
+  return ethers.getAddress(`0x${(n + 1).toString(16).padStart(40, '0')}`);
+}
+
+function pairs(count: number, typeId: number, contract: (i: number) => string): HandleContractPair[] {
+  return Array.from({ length: count }, (_, i) => ({ handle: makeHandle(typeId, i + 1), contractAddress: contract(i) }));
+}
+
+describe('planUserDecryptBatches', () => {
+  it('splits one contract\'s handles at 2048 encrypted bits', () => {
+    // 64 x 32 bits fill a request exactly, the 65th starts a new one
+    const batches = planUserDecryptBatches(pairs(65, EUINT32, () => contractAddress(0)));
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].requests.map(request => request.length)).toEqual([64, 1]);
+  });
+
+  it('groups at most 10 contracts under one signature', () => {
+    const batches = planUserDecryptBatches(pairs(11, EUINT256, contractAddress));
+
+    expect(batches.map(batch => batch.contractAddresses.length)).toEqual([10, 1]);
+    expect(batches[1].contractAddresses).toEqual([contractAddress(10)]);
+    // 8 x 256 bits per request
+    expect(batches[0].requests.map(request => request.length)).toEqual([8, 2]);
+  });
+
+  it('caps caller limits at the relayer limits', () => {
+    const batches = planUserDecryptBatches(pairs(12, EUINT256, contractAddress), {
+      maxContractsPerSignature: 50,
+      maxBitsPerRequest: 4096,
+    });
+
+    expect(batches.map(batch => batch.contractAddresses.length)).toEqual([10, 2]);
+    expect(batches[0].requests.map(request => request.length)).toEqual([8, 2]);
+  });
+
+  it('honours smaller caller limits', () => {
+    const batches = planUserDecryptBatches(pairs(4, EUINT32, contractAddress), {
+      maxContractsPerSignature: 2,
+      maxBitsPerRequest: 32,
+    });
+
+    expect(batches).toHaveLength(2);
+    expect(batches[0].requests).toHaveLength(2);
+  });
+
+  it('de-duplicates pairs regardless of address and handle case', () => {
+    const handle = makeHandle(EUINT32, 1);
+    const address = contractAddress(0);
+    const batches = planUserDecryptBatches([
+      { handle, contractAddress: address.toLowerCase() },
+      { handle: handle.toUpperCase().replace('0X', '0x'), contractAddress: address },
+      { handle, contractAddress: contractAddress(1) },
+    ]);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].contractAddresses).toEqual([address, contractAddress(1)]);
+    expect(batches[0].requests).toEqual([[
+      { handle, contractAddress: address },
+      { handle, contractAddress: contractAddress(1) },
+    ]]);
+  });
+
+  it('returns no batches for no pairs', () => {
+    expect(planUserDecryptBatches([])).toEqual([]);
+  });
+
+  it('rejects handles it cannot size', () => {
+    const plan = () => planUserDecryptBatches([{ handle: makeHandle(1, 1), contractAddress: contractAddress(0) }]);
+    expect(plan).toThrow(InvalidHandleError);
+    expect(plan).toThrow(/Invalid ciphertext handle/);
+  });
+});
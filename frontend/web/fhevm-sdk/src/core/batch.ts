@@ -0,0 +1,91 @@
+/**
+ * FHEVM User Decryption Batches - Universal SDK
+ * Splits handles owned by many contracts into requests the relayer accepts
+ */
+
+import { ethers } from 'ethers';
+import { getHandleFheType } from './handles.js';
+import { InvalidHandleError } from './errors.js';
+
+// Relayer SDK limits for one user decryption request
+export const MAX_USER_DECRYPT_CONTRACTS = 10;
+export const MAX_USER_DECRYPT_BITS = 2048;
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+export interface UserDecryptBatchOptions {
+  // Contracts covered by one EIP-712 signature, at most 10
+  maxContractsPerSignature?: number;
+  // Encrypted bits per relayer request, at most 2048
+  maxBitsPerRequest?: number;
+}
+
+/**
+ * Handles signed for together: one EIP-712 authorization, one or more relayer requests
+ */
+export interface UserDecryptBatch {
+  contractAddresses: string[];
+  requests: HandleContractPair[][];
+}
+
+/**
+ * Group pairs by contract set and chunk each group by the encrypted-bits limit
+ */
+export function planUserDecryptBatches(
+  pairs: HandleContractPair[],
+  options: UserDecryptBatchOptions = {}
+): UserDecryptBatch[] {
+  const maxContracts = Math.min(options.maxContractsPerSignature ?? MAX_USER_DECRYPT_CONTRACTS, MAX_USER_DECRYPT_CONTRACTS);
+  const maxBits = Math.min(options.maxBitsPerRequest ?? MAX_USER_DECRYPT_BITS, MAX_USER_DECRYPT_BITS);
+
+  // Normalize and de-duplicate, keeping first-seen order
+  const pairsByContract = new Map<string, HandleContractPair[]>();
+  const seen = new Set<string>();
+  for (const pair of pairs) {
+    const contractAddress = ethers.getAddress(pair.contractAddress);
+    const handle = pair.handle.toLowerCase();
+    const key = `${contractAddress}:${handle}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (!pairsByContract.has(contractAddress)) pairsByContract.set(contractAddress, []);
+    pairsByContract.get(contractAddress)!.push({ handle: pair.handle, contractAddress });
+  }
+
+  const contracts = [...pairsByContract.keys()];
+  const batches: UserDecryptBatch[] = [];
+
+  for (let i = 0; i < contracts.length; i += maxContracts) {
+    const contractAddresses = contracts.slice(i, i + maxContracts);
+    const requests: HandleContractPair[][] = [];
+    let current: HandleContractPair[] = [];
+    let currentBits = 0;
+
+    for (const pair of contractAddresses.flatMap(address => pairsByContract.get(address)!)) {
+      const bits = encryptedBitsOf(pair.handle);
+      if (current.length > 0 && currentBits + bits > maxBits) {
+        requests.push(current);
+        current = [];
+        currentBits = 0;
+      }
+      current.push(pair);
+      currentBits += bits;
+    }
+    if (current.length > 0) requests.push(current);
+
+    batches.push({ contractAddresses, requests });
+  }
+
+  return batches;
+}
+
+function encryptedBitsOf(handle: string): number {
+  const type = getHandleFheType(handle);
+  if (!type) {
+    throw new InvalidHandleError(`Invalid ciphertext handle for decryption: ${handle}`, handle);
+  }
+  return type.encryptedBits;
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { FhevmClient } from './client.js';
+import { EncryptionWorkerPool, type WorkerRequest, type WorkerResponse } from './workerPool.js';
+import { RelayerUnavailableError, WasmLoadError } from './errors.js';
+import type { ResiliencePolicyOverrides } from './resilience.js';
+
+const CONTRACT = `0x${'c0'.repeat(20)}`;
+const USER = `0x${'a1'.repeat(20)}`;
+const RESULT = { handles: [new Uint8Array(32).fill(1)], inputProof: new Uint8Array([2]) };
+
+// No backoff wait, so retries stay fast
+const FAST_RETRY = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+type Script = (worker: FakeWorker, request: WorkerRequest) => void;
+
+/**
+ * Worker stand-in: `script` answers each request the way encryptWorker.ts would
+ */
+class FakeWorker {
+  onmessage: ((event: { data: WorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  terminated = false;
+  requests: WorkerRequest[] = [];
+
+  constructor(private script: Script) {}
+
+  postMessage(request: WorkerRequest) {
+    this.requests.push(request);
+    queueMicrotask(() => this.script(this, request));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(data: WorkerResponse, delayMs = 0) {
+    setTimeout(() => {
+      if (!this.terminated) this.onmessage?.({ data });
+    }, delayMs);
+  }
+}
+
+/**
+ * Client encrypting through a pool of fake workers; each new worker runs the next script
+ */
+function clientWithWorkers(scripts: Script[], resilience: ResiliencePolicyOverrides) {
+  const workers: FakeWorker[] = [];
+  const pool = new EncryptionWorkerPool({
+    network: 'sepolia',
+    rpcUrl: 'http://127.0.0.1:8545',
+    createWorker: () => {
+      const worker = new FakeWorker(scripts[Math.min(workers.length, scripts.length - 1)]);
+      workers.push(worker);
+      return worker as unknown as Worker;
+    },
+  });
+  const client = new FhevmClient({ instance: {}, resilience });
+  client.setEncryptionWorkers(pool);
+  return { client, workers };
+}
+
+// Loads in `loadMs`, then answers each job after `encryptMs` (never when undefined)
+function encryptingWorker({ loadMs = 0, encryptMs }: { loadMs?: number; encryptMs?: number }): Script {
+  return (worker, request) => {
+    if (request.type === 'init') {
+      worker.reply({ type: 'ready' }, loadMs);
+      return;
+    }
+    worker.reply({ type: 'progress', id: request.id, stage: 'encrypting' });
+    if (encryptMs !== undefined) worker.reply({ type: 'result', id: request.id, result: RESULT }, encryptMs);
+  };
+}
+
+function failingWorker(error: { name: string; message: string; cause?: { code: string; status?: number } }): Script {
+  return (worker, request) => {
+    if (request.type === 'init') worker.reply({ type: 'ready' });
+    else worker.reply({ type: 'error', id: request.id, error });
+  };
+}
+
+describe('FhevmClient encryption in workers', () => {
+  it('cancels a job past the encrypt timeout before retrying it on a fresh worker', async () => {
+    const { client, workers } = clientWithWorkers(
+      [encryptingWorker({}), encryptingWorker({ encryptMs: 5 })],
+      { timeouts: { encrypt: 50 }, retry: FAST_RETRY }
+    );
+
+    const { encryptedData } = await client.createEncryptedInput(CONTRACT, USER, 7);
+
+    expect(encryptedData).toEqual(RESULT.handles[0]);
+    expect(workers).toHaveLength(2);
+    // The stuck worker was stopped, so its job cannot finish beside the retry
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].requests.filter(request => request.type === 'encrypt')).toHaveLength(1);
+    expect(client.getRelayerStatus().consecutiveFailures).toBe(0);
+  });
+
+  it('reports the timeout as an outage once the retries are spent', async () => {
+    const { client, workers } = clientWithWorkers([encryptingWorker({})], { timeouts: { encrypt: 20 }, retry: { ...FAST_RETRY, retries: 1 } });
+
+    await expect(client.createEncryptedInput(CONTRACT, USER, 7)).rejects.toThrow(/did not answer encrypt within 20 ms/);
+    expect(workers).toHaveLength(2);
+    expect(workers.every(worker => worker.terminated)).toBe(true);
+    expect(client.getRelayerStatus().consecutiveFailures).toBe(2);
+  });
+
+  it('starts the encrypt timeout when a worker starts the job, not while WASM loads', async () => {
+    const { client, workers } = clientWithWorkers(
+      [encryptingWorker({ loadMs: 120, encryptMs: 10 })],
+      { timeouts: { encrypt: 60 }, retry: { retries: 0 } }
+    );
+
+    const { encryptedData } = await client.createEncryptedInput(CONTRACT, USER, 7);
+
+    expect(encryptedData).toEqual(RESULT.handles[0]);
+    expect(workers).toHaveLength(1);
+  });
+
+  it('does not count jobs waiting in the queue against the timeout', async () => {
+    const { client } = clientWithWorkers([encryptingWorker({ encryptMs: 40 })], { timeouts: { encrypt: 60 }, retry: { retries: 0 } });
+
+    // One worker: the third job waits ~80 ms for the two ahead of it
+    const results = await Promise.all([1, 2, 3].map(value => client.createEncryptedInput(CONTRACT, USER, value)));
+
+    expect(results).toHaveLength(3);
+  });
+
+  it('retries relayer failures reported by the worker', async () => {
+    const relayerDown = { name: 'Error', message: 'Relayer didn\'t respond', cause: { code: 'RELAYER_FETCH_ERROR', status: 503 } };
+    const { client, workers } = clientWithWorkers([failingWorker(relayerDown)], { retry: FAST_RETRY });
+
+    await expect(client.createEncryptedInput(CONTRACT, USER, 7)).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(workers[0].requests.filter(request => request.type === 'encrypt')).toHaveLength(3);
+    expect(client.getRelayerStatus().consecutiveFailures).toBe(3);
+  });
+
+  it('does not retry a worker that cannot load WASM, nor count it against the relayer', async () => {
+    const wasmFailure: Script = (worker, request) => {
+      if (request.type === 'init') {
+        worker.reply({ type: 'error', error: { name: 'WasmLoadError', message: 'Failed to fetch /fhevm/tfhe_bg.wasm' } });
+      }
+    };
+    const { client, workers } = clientWithWorkers([wasmFailure], { retry: FAST_RETRY });
+
+    await expect(client.createEncryptedInput(CONTRACT, USER, 7)).rejects.toBeInstanceOf(WasmLoadError);
+    expect(workers).toHaveLength(1);
+    expect(client.getRelayerStatus().consecutiveFailures).toBe(0);
+  });
+
+  it('does not retry a job the caller cancelled', async () => {
+    const { client, workers } = clientWithWorkers([encryptingWorker({})], { retry: FAST_RETRY });
+    const controller = new AbortController();
+
+    const result = client.createEncryptedInput(CONTRACT, USER, 7, {
+      signal: controller.signal,
+      onProgress: ({ stage }) => {
+        if (stage === 'encrypting') controller.abort();
+      },
+    });
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(workers).toHaveLength(1);
+    expect(workers[0].terminated).toBe(true);
+  });
+});
@@ -0,0 +1,527 @@
+/**
+ * FHEVM Client - Universal SDK
+ * Owns one FHEVM instance together with its config, signer and logger,
+ * so several clients (chains, relayers, mocks) can run side by side
+ */
+
+import { ethers } from 'ethers';
+import { createBrowserFheInstance, createNodeFheInstance } from './instance.js';
+import { createMockFheInstance } from './mock.js';
+import { resolveNodeSigner } from './provider.js';
+import { getWalletProvider } from './wallets.js';
+import { EncryptedInputBuilder, encryptLocally, type EncryptedInputEntry, type EncryptOptions, type RawEncryptResult } from './input.js';
+import { EncryptionWorkerPool, type EncryptionWorkerPoolOptions } from './workerPool.js';
+import { DecryptionSessionManager } from './session.js';
+import { abiEncodeClearValues, toClearValue, type ClearValue, type PublicDecryptionResult } from './values.js';
+import { NotInitializedError, ProofInvalidError, isFhevmError, toFhevmError } from './errors.js';
+import { assertHandleMatches } from './handles.js';
+import { planUserDecryptBatches, type HandleContractPair, type UserDecryptBatchOptions } from './batch.js';
+import { resolveNetwork, type FhevmNetworkConfig, type FhevmNetworkName } from './networks.js';
+import type { FhevmWasmConfig } from './wasm.js';
+import { reportCount, silentLogger, timed, type FhevmLogger, type FhevmTelemetry } from './logger.js';
+import { RelayerResilience, relayerTimeoutError, type RelayerStatus, type RelayerStatusListener, type ResiliencePolicyOverrides } from './resilience.js';
+
+/**
+ * 'relayer' talks to the Zama relayer, 'mock' to a local Hardhat fhevm node
+ */
+export type FhevmMode = 'relayer' | 'mock';
+
+export interface FhevmClientConfig {
+  // Defaults to 'relayer'
+  mode?: FhevmMode;
+  // Preset name or full network profile, defaults to 'sepolia'
+  network?: FhevmNetworkName | FhevmNetworkConfig;
+  // Overrides the network's rpcUrl on the Node.js path and in mock mode
+  rpcUrl?: string;
+  // Node.js path, pass to initialize(): builds a Wallet signer on rpcUrl when no signer is set (not stored)
+  privateKey?: string;
+  // Browser path: where the WASM assets are served from, load progress
+  wasm?: FhevmWasmConfig;
+  // Browser path: encrypt in Web Workers instead of on the UI thread (see EncryptionWorkerPoolOptions.createWorker)
+  worker?: Pick<EncryptionWorkerPoolOptions, 'size' | 'createWorker'>;
+}
+
+export interface FhevmClientOptions {
+  config?: FhevmClientConfig;
+  signer?: any;
+  // Defaults to silentLogger
+  logger?: FhevmLogger;
+  telemetry?: FhevmTelemetry;
+  // Policy overrides, or a RelayerResilience shared with other clients of the same relayer
+  resilience?: ResiliencePolicyOverrides | RelayerResilience;
+  instance?: any;
+  // Shared across clients to reuse signatures, defaults to a new manager
+  sessions?: DecryptionSessionManager;
+}
+
+export class FhevmClient {
+  private instance: any;
+  private config: FhevmClientConfig;
+  private signer: any;
+  private logger: FhevmLogger;
+  private telemetry?: FhevmTelemetry;
+  private relayer: RelayerResilience;
+  private sessions: DecryptionSessionManager;
+  private workers: EncryptionWorkerPool | null = null;
+  private generation = 0;
+
+  constructor(options: FhevmClientOptions = {}) {
+    this.instance = options.instance ?? null;
+    this.config = options.config ?? {};
+    this.signer = options.signer ?? null;
+    this.logger = options.logger ?? silentLogger;
+    this.telemetry = options.telemetry;
+    this.sessions = options.sessions ?? new DecryptionSessionManager();
+    this.relayer = options.resilience instanceof RelayerResilience
+      ? options.resilience
+      : new RelayerResilience(options.resilience);
+    this.relayer.onRetry = (operation, attempt, error) => {
+      reportCount(this.telemetry, 'relayer.retries', 1, { operation, attempt });
+      this.logger.warn(`Retrying ${operation} (attempt ${attempt}):`, error.message);
+    };
+  }
+
+  /**
+   * Initialize FHEVM instance - Environment-aware
+   */
+  async initialize(config?: FhevmClientConfig) {
+    const { privateKey, ...rest } = config ?? {};
+    this.config = { ...this.config, ...rest };
+
+    const network = resolveNetwork(this.config.network);
+    const mode = this.config.mode ?? 'relayer';
+
+    // A dispose() or a newer initialize() while this one runs makes its result stale
+    const generation = ++this.generation;
+    const isBrowser = mode !== 'mock' && typeof window !== 'undefined' && !!getWalletProvider();
+    // Bad worker settings fail here, before an instance exists (the pool spawns its workers lazily)
+    const workers = isBrowser ? this.createWorkers(network) : null;
+
+    const instance = await timed<any>(this.telemetry, 'init.duration', async () => {
+      if (mode === 'mock') {
+        return createMockFheInstance(this.logger, network, this.config.rpcUrl);
+      }
+
+      // Detect environment
+      if (isBrowser) {
+        return createBrowserFheInstance(this.logger, network, this.config.wasm);
+      }
+
+      const url = this.config.rpcUrl || network.rpcUrl;
+      if (!url) throw new Error(`No rpcUrl configured for network "${network.name}".`);
+
+      const provider = new ethers.JsonRpcProvider(url);
+      const signer = resolveNodeSigner(provider, this.signer ?? undefined, privateKey);
+      if (signer) this.signer = signer;
+
+      return createNodeFheInstance(this.logger, network, provider, signer);
+    }, { mode, network: network.name }).catch((error) => {
+      workers?.terminate();
+      throw error;
+    });
+
+    if (generation !== this.generation) {
+      this.logger.debug(`Discarding the ${network.name} instance: the client was re-initialized meanwhile`);
+      workers?.terminate();
+      return this.instance;
+    }
+    this.instance = instance;
+    if (workers) this.setEncryptionWorkers(workers);
+    return this.instance;
+  }
+
+  /**
+   * Drop the instance and stop the encryption workers, e.g. when the wallet switches chain.
+   * Calls fail with NotInitializedError until initialize() runs again.
+   */
+  dispose() {
+    this.generation++;
+    this.setEncryptionWorkers(null);
+    this.instance = null;
+  }
+
+  get isInitialized(): boolean {
+    return this.instance !== null;
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  /**
+   * Use an already created instance, e.g. a mocked one in tests
+   */
+  setInstance(instance: any) {
+    this.instance = instance;
+  }
+
+  getConfig(): FhevmClientConfig {
+    return this.config;
+  }
+
+  getNetwork(): FhevmNetworkConfig {
+    return resolveNetwork(this.config.network);
+  }
+
+  getSigner() {
+    return this.signer;
+  }
+
+  setSigner(signer: any) {
+    this.signer = signer;
+  }
+
+  getLogger(): FhevmLogger {
+    return this.logger;
+  }
+
+  setLogger(logger: FhevmLogger) {
+    this.logger = logger;
+  }
+
+  getTelemetry(): FhevmTelemetry | undefined {
+    return this.telemetry;
+  }
+
+  setTelemetry(telemetry: FhevmTelemetry | undefined) {
+    this.telemetry = telemetry;
+  }
+
+  getSessionManager(): DecryptionSessionManager {
+    return this.sessions;
+  }
+
+  getEncryptionWorkers(): EncryptionWorkerPool | null {
+    return this.workers;
+  }
+
+  /**
+   * Route encryption through a worker pool, or back to this thread with null
+   */
+  setEncryptionWorkers(workers: EncryptionWorkerPool | null) {
+    if (this.workers && this.workers !== workers) this.workers.terminate();
+    this.workers = workers;
+  }
+
+  getResilience(): RelayerResilience {
+    return this.relayer;
+  }
+
+  /**
+   * Relayer health as seen by the circuit breaker
+   */
+  getRelayerStatus(): RelayerStatus {
+    return this.relayer.getStatus();
+  }
+
+  onRelayerStatusChange(listener: RelayerStatusListener): () => void {
+    return this.relayer.subscribe(listener);
+  }
+
+  /**
+   * Drop the cached decryption authorization for a signer and contract set
+   */
+  async revokeDecryptionSession(contractAddresses: string[], signer: any = this.signer) {
+    if (!signer) throw new Error('No signer available. Pass a signer or call setSigner() first.');
+    await this.sessions.revoke(await signer.getAddress(), contractAddresses, this.getNetwork().chainId);
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption
+   */
+  async decryptValue(encryptedBytes: string, contractAddress: string, signer?: any): Promise<ClearValue> {
+    const values = await this.batchDecryptValues([encryptedBytes], contractAddress, signer);
+    return values[encryptedBytes];
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values of one contract using EIP-712 user decryption
+   */
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer: any = this.signer
+  ): Promise<Record<string, ClearValue>> {
+    return this.batchDecryptPairs(handles.map(handle => ({ handle, contractAddress })), signer);
+  }
+
+  /**
+   * Batch decrypt handles owned by several contracts using EIP-712 user decryption.
+   * One signature covers up to 10 contracts; requests are chunked to the relayer's bit limit.
+   */
+  async batchDecryptPairs(
+    pairs: HandleContractPair[],
+    signer: any = this.signer,
+    options: UserDecryptBatchOptions = {}
+  ): Promise<Record<string, ClearValue>> {
+    const fhe = this.requireInstance();
+    if (!signer) throw new Error('No signer available. Pass a signer or call setSigner() first.');
+
+    try {
+      this.logger.debug(`EIP-712 user decryption of ${pairs.length} handle(s)`);
+
+      // Handles from another chain or malformed ones would only fail inside the relayer
+      const chainId = this.getNetwork().chainId;
+      for (const { handle } of pairs) assertHandleMatches(handle, undefined, chainId);
+
+      const decryptedValues: Record<string, ClearValue> = {};
+
+      for (const batch of planUserDecryptBatches(pairs, options)) {
+        // Reuses the keypair and signature while the authorization is valid
+        const session = await this.sessions.getSession(fhe, signer, batch.contractAddresses, chainId);
+
+        for (const request of batch.requests) {
+          reportCount(this.telemetry, 'decrypt.batchSize', request.length, { kind: 'user' });
+
+          const result = await timed<any>(this.telemetry, 'relayer.userDecrypt.latency', () => this.relayer.run('userDecrypt', () => fhe.userDecrypt(
+            request,
+            session.privateKey,
+            session.publicKey,
+            session.signature,
+            session.contractAddresses,
+            session.userAddress,
+            session.startTimestamp.toString(),
+            session.durationDays.toString()
+          )));
+
+          // Type each value by its handle: bigint, boolean or address
+          for (const { handle } of request) {
+            decryptedValues[handle] = toClearValue(handle, result[handle] ?? result[handle.toLowerCase() as `0x${string}`]);
+          }
+        }
+      }
+
+      // Also key results by the caller's spelling of each handle
+      for (const { handle } of pairs) {
+        if (!(handle in decryptedValues)) {
+          const match = Object.keys(decryptedValues).find(key => key.toLowerCase() === handle.toLowerCase());
+          if (match) decryptedValues[handle] = decryptedValues[match];
+        }
+      }
+
+      return decryptedValues;
+    } catch (error: any) {
+      throw this.fail(error);
+    }
+  }
+
+  /**
+   * Encrypt values using FHEVM
+   *
+   * 📝 BIT SIZE SUPPORT:
+   * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
+   * than the default 32-bit, you can use the appropriate method:
+   * - add8(value)   - for 8-bit values (0-255)
+   * - add16(value) - for 16-bit values (0-65535)
+   * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
+   * - add64(value) - for 64-bit values (0-18446744073709551615)
+   * - add128(value) - for 128-bit values
+   * - add256(value) - for 256-bit values
+   *
+   * Example: If your contract expects 8-bit values, replace add32() with add8()
+   */
+  async encryptValue(contractAddress: string, address: string, plainDigits: number[], options?: EncryptOptions) {
+    const entries: EncryptedInputEntry[] = plainDigits.map(d => ({ type: 'euint8', value: BigInt(d) }));
+    const ciphertextBlob = await this.encryptEntries(contractAddress, address, entries, options);
+    return ciphertextBlob;
+  }
+
+  /**
+   * Start a typed encrypted input holding several values in one proof
+   */
+  input(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+    return new EncryptedInputBuilder(this.requireInstance(), contractAddress, userAddress, {
+      encryptor: (contract, user, entries, options) => this.encryptEntries(contract, user, entries, options),
+    });
+  }
+
+  /**
+   * Create encrypted input for contract interaction (matches showcase API)
+   */
+  async createEncryptedInput(contractAddress: string, userAddress: string, value: number, options?: EncryptOptions) {
+    // Never log the clear value or the ciphertext
+    this.logger.debug(`Creating encrypted input for contract ${contractAddress}`);
+
+    const result: any = await this.encryptEntries(contractAddress, userAddress, [{ type: 'euint32', value: BigInt(value) }], options);
+
+    this.logger.debug('Encrypted input created');
+
+    // The FHEVM SDK returns an object with handles and inputProof
+    // We need to extract the correct values for the contract
+    if (result && typeof result === 'object') {
+      // If result has handles array, use the first handle
+      if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
+        return {
+          encryptedData: result.handles[0],
+          proof: result.inputProof
+        };
+      }
+      // If result has encryptedData and proof properties
+      else if (result.encryptedData && result.proof) {
+        return {
+          encryptedData: result.encryptedData,
+          proof: result.proof
+        };
+      }
+      // Fallback: use the result as-is
+      else {
+        return {
+          encryptedData: result,
+          proof: result
+        };
+      }
+    }
+
+    // If result is not an object, use it directly
+    return {
+      encryptedData: result,
+      proof: result
+    };
+  }
+
+  /**
+   * Public decryption with the KMS proof needed by FHE.checkSignatures on-chain
+   */
+  async publicDecryptV09(handles: string[]): Promise<PublicDecryptionResult> {
+    const fhe = this.requireInstance();
+
+    try {
+      this.logger.debug(`v0.9 public decryption of ${handles.length} handle(s)`);
+      reportCount(this.telemetry, 'decrypt.batchSize', handles.length, { kind: 'public' });
+
+      const chainId = this.getNetwork().chainId;
+      for (const handle of handles) assertHandleMatches(handle, undefined, chainId);
+
+      if (typeof fhe.publicDecrypt !== 'function') {
+        throw new Error('This FHEVM instance does not support public decryption (relayer SDK 0.3 or later required).');
+      }
+
+      const result = await timed<any>(this.telemetry, 'relayer.publicDecrypt.latency',
+        () => this.relayer.run('publicDecrypt', () => fhe.publicDecrypt(handles)));
+
+      // Older relayers return the clear values map directly, without a proof
+      const rawValues = result?.clearValues ?? result;
+      if (!rawValues || typeof rawValues !== 'object') {
+        throw new Error('Invalid publicDecrypt result structure');
+      }
+
+      // A proof that cannot verify would only fail on-chain, after the user paid for gas
+      const decryptionProof = result?.decryptionProof;
+      if (typeof decryptionProof !== 'string' || !ethers.isHexString(decryptionProof) || decryptionProof === '0x') {
+        throw new ProofInvalidError('The relayer returned no KMS decryption proof, so the result cannot be verified on-chain.');
+      }
+
+      const clearValues: Record<string, ClearValue> = {};
+      for (const handle of handles) {
+        clearValues[handle] = toClearValue(handle, rawValues[handle] ?? rawValues[handle.toLowerCase()]);
+      }
+
+      return {
+        clearValues,
+        // Re-encode only when missing, with each handle's own Solidity type
+        abiEncodedClearValues: result.abiEncodedClearValues ?? abiEncodeClearValues(handles, clearValues),
+        decryptionProof,
+      };
+    } catch (error: any) {
+      throw this.fail(error);
+    }
+  }
+
+  /**
+   * Every encryption path ends here: worker pool or this thread, under the relayer policy
+   */
+  private encryptEntries(
+    contractAddress: string,
+    userAddress: string,
+    entries: EncryptedInputEntry[],
+    options: EncryptOptions = {}
+  ): Promise<RawEncryptResult> {
+    const fhe = this.requireInstance();
+    const workers = this.workers;
+
+    const attempt = async () => {
+      if (workers) return this.encryptInWorker(workers, contractAddress, userAddress, entries, options);
+
+      options.signal?.throwIfAborted();
+      options.onProgress?.({ stage: 'encrypting' });
+      const result = await encryptLocally(fhe, contractAddress, userAddress, entries);
+      options.onProgress?.({ stage: 'done' });
+      return result;
+    };
+
+    reportCount(this.telemetry, 'encrypt.values', entries.length);
+    // A worker job enforces the encrypt timeout itself, so queueing and WASM loading are not counted
+    return timed(this.telemetry, 'encrypt.duration', () => this.relayer.run('encrypt', attempt, { timeout: !workers }), {
+      thread: workers ? 'worker' : 'main',
+    });
+  }
+
+  /**
+   * One worker job under the encrypt timeout, counted from the moment a worker starts it.
+   * A job past its timeout is cancelled (its worker stops), so a retry never runs beside it.
+   */
+  private async encryptInWorker(
+    workers: EncryptionWorkerPool,
+    contractAddress: string,
+    userAddress: string,
+    entries: EncryptedInputEntry[],
+    options: EncryptOptions
+  ): Promise<RawEncryptResult> {
+    options.signal?.throwIfAborted();
+    const timeoutMs = this.relayer.getPolicy().timeouts.encrypt;
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', forwardAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+
+    try {
+      return await workers.encrypt(contractAddress, userAddress, entries, {
+        ...options,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (progress.stage === 'encrypting' && timer === undefined && Number.isFinite(timeoutMs) && timeoutMs > 0) {
+            timer = setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+            }, timeoutMs);
+          }
+          options.onProgress?.(progress);
+        },
+      });
+    } catch (error) {
+      if (timedOut) throw relayerTimeoutError('encrypt', timeoutMs);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  private createWorkers(network: FhevmNetworkConfig): EncryptionWorkerPool | null {
+    const { worker } = this.config;
+    if (!worker || !EncryptionWorkerPool.isSupported()) return null;
+
+    return new EncryptionWorkerPool({
+      ...worker,
+      network,
+      rpcUrl: this.config.rpcUrl,
+      wasm: this.config.wasm,
+    });
+  }
+
+  /**
+   * Convert an error to an FhevmError and count it
+   */
+  private fail(error: unknown): Error {
+    const fhevmError = toFhevmError(error);
+    reportCount(this.telemetry, 'errors', 1, { code: isFhevmError(fhevmError) ? fhevmError.code : 'UNKNOWN' });
+    this.logger.error('FHEVM operation failed:', fhevmError.message);
+    return fhevmError;
+  }
+
+  private requireInstance() {
+    if (!this.instance) throw new NotInitializedError();
+    return this.instance;
+  }
+}
@@ -0,0 +1,359 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmContract } from './contracts.js';
+import type { FhevmClient } from './client.js';
+import { InvalidHandleError } from './errors.js';
+
+const CONTRACT = ethers.getAddress('0x00000000000000000000000000000000000000C0');
+const USER = ethers.getAddress('0x00000000000000000000000000000000000000A1');
+const RECIPIENT = ethers.getAddress('0x00000000000000000000000000000000000000B2');
+const SEPOLIA = 11155111;
+const PROOF = '0xc0ffee';
+
+function makeHandle(typeId: number, n = 1): string {
+  return `0x${n.toString(16).padStart(42, '0')}00${SEPOLIA.toString(16).padStart(16, '0')}${typeId.toString(16).padStart(2, '0')}00`;
+}
+
+// The proof sits between encrypted parameters, so plain arguments after it shift by one
+const ABI = [
+  {
+    type: 'function',
+    name: 'transfer',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'id', type: 'uint256', internalType: 'uint256' },
+      { name: 'amount', type: 'bytes32', internalType: 'externalEuint32' },
+      { name: 'inputProof', type: 'bytes', internalType: 'bytes' },
+      { name: 'to', type: 'address', internalType: 'address' },
+      { name: 'approved', type: 'bytes32', internalType: 'externalEbool' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'store',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'value', type: 'bytes32', internalType: 'externalEuint64' },
+      { name: 'attestation', type: 'bytes', internalType: 'bytes' },
+      { name: 'note', type: 'string', internalType: 'string' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'event',
+    name: 'Stored',
+    anonymous: false,
+    inputs: [
+      { name: 'owner', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'id', type: 'uint256', indexed: false, internalType: 'uint256' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'plain',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'value', type: 'uint256', internalType: 'uint256' }],
+    outputs: [],
+  },
+] as const;
+
+function setup() {
+  const added: [string, unknown][] = [];
+  const encrypt = vi.fn(async () => ({
+    handles: added.map((_, index) => ({ handle: makeHandle(index === 0 ? 4 : 0, index + 1) })),
+    inputProof: PROOF,
+  }));
+  const builder = {
+    add: vi.fn((type: string, value: unknown) => {
+      added.push([type, value]);
+      return builder;
+    }),
+    encrypt,
+  };
+  const client = { input: vi.fn(() => builder) } as unknown as FhevmClient;
+
+  const sendTransaction = vi.fn(async (tx: ethers.TransactionRequest) => ({ hash: ethers.ZeroHash, ...tx }));
+  const signer = {
+    provider: { getNetwork: async () => ({ chainId: BigInt(SEPOLIA) }) },
+    getAddress: async () => USER,
+    sendTransaction,
+  };
+  const contract = FhevmContract.create(CONTRACT, ABI, signer as unknown as ethers.ContractRunner, { client });
+  const iface = new ethers.Interface(ABI as unknown as ethers.InterfaceAbi);
+
+  // Decoded arguments of the n-th transaction sent
+  const sent = (n = 0) => {
+    const tx = sendTransaction.mock.calls[n][0];
+    return { tx, args: [...iface.parseTransaction({ data: tx.data as string })!.args] };
+  };
+
+  return { contract, client, builder, added, encrypt, sent };
+}
+
+describe('FhevmContract.getEncryptedLayout', () => {
+  it('finds encrypted parameters and the proof from the ABI', () => {
+    const { contract } = setup();
+
+    expect(contract.getEncryptedLayout('transfer')).toEqual([{
+      signature: 'transfer(uint256,bytes32,bytes,address,bytes32)',
+      arity: 5,
+      encrypted: [
+        { index: 1, name: 'amount', type: 'euint32' },
+        { index: 4, name: 'approved', type: 'ebool' },
+      ],
+      proofIndex: 2,
+    }]);
+    // Without a proof-like name, the first bytes after an encrypted parameter
+    expect(contract.getEncryptedLayout('store')[0].proofIndex).toBe(1);
+    expect(contract.getEncryptedLayout('plain')).toEqual([]);
+  });
+
+  it('requires the JSON ABI', () => {
+    const contract = new FhevmContract(new ethers.Contract(CONTRACT, ABI as unknown as ethers.InterfaceAbi), CONTRACT);
+    expect(() => contract.getEncryptedLayout('transfer')).toThrow(/needs the JSON ABI/);
+  });
+
+  it('rejects encrypted inputs without a proof parameter', () => {
+    const abi = [{ type: 'function', name: 'broken', inputs: [{ name: 'value', type: 'bytes32', internalType: 'externalEuint8' }] }];
+    const contract = FhevmContract.create(CONTRACT, abi, null as unknown as ethers.ContractRunner);
+    expect(() => contract.getEncryptedLayout('broken')).toThrow(/no bytes parameter for their input proof/);
+  });
+});
+
+describe('FhevmContract.write', () => {
+  it('encrypts the encrypted parameters into one input and places handles and proof', async () => {
+    const { contract, client, added, encrypt, sent } = setup();
+
+    await contract.write('transfer', 7n, 120, RECIPIENT, true);
+
+    expect(client.input).toHaveBeenCalledWith(CONTRACT, USER);
+    expect(added).toEqual([['euint32', 120], ['ebool', true]]);
+    expect(encrypt).toHaveBeenCalledTimes(1);
+    expect(sent().args).toEqual([7n, makeHandle(4, 1), PROOF, RECIPIENT, makeHandle(0, 2)]);
+  });
+
+  it('passes a trailing object on as transaction overrides', async () => {
+    const { contract, sent } = setup();
+
+    await contract.write('store', 5n, 'hello', { gasLimit: 500_000n });
+
+    const { tx, args } = sent();
+    expect(args).toEqual([makeHandle(4, 1), PROOF, 'hello']);
+    expect(tx.gasLimit).toBe(500_000n);
+  });
+
+  it('checks the argument count against the ABI', async () => {
+    const { contract } = setup();
+
+    await expect(contract.write('transfer', 7n, 120)).rejects.toThrow(/transfer takes 4 arguments without the input proof, got 2/);
+    await expect(contract.write('plain', 1n)).rejects.toThrow(/plain has no encrypted parameters/);
+  });
+
+  it('needs a signer', async () => {
+    const contract = FhevmContract.create(CONTRACT, ABI, null as unknown as ethers.ContractRunner, { client: setup().client });
+    await expect(contract.write('store', 5n, 'hello')).rejects.toThrow(/needs a signer/);
+  });
+});
+
+describe('FhevmContract.encryptAndCall', () => {
+  it('places an encrypted value and its proof by the ABI layout', async () => {
+    const { contract, sent } = setup();
+    const encryptedData = makeHandle(5);
+
+    await contract.encryptAndCall('store', { encryptedData, proof: PROOF }, 'note');
+
+    expect(sent().args).toEqual([encryptedData, PROOF, 'note']);
+  });
+
+  it('rejects a handle from another chain before sending', async () => {
+    const { contract } = setup();
+    const foreign = `0x${'11'.repeat(21)}00${(31337).toString(16).padStart(16, '0')}0500`;
+
+    await expect(contract.encryptAndCall('store', { encryptedData: foreign, proof: PROOF }, 'note'))
+      .rejects.toBeInstanceOf(InvalidHandleError);
+  });
+});
+
+/**
+ * Provider over an in-memory chain whose blocks can be replaced to simulate a reorg
+ */
+function fakeChain(head: number) {
+  const iface = new ethers.Interface(ABI as unknown as ethers.InterfaceAbi);
+  const hashes = new Map<number, string>();
+  const logs: ethers.Log[] = [];
+  const getLogs = vi.fn(async (filter: ethers.Filter) => logs.filter(log =>
+    log.blockNumber >= Number(filter.fromBlock) && log.blockNumber <= Number(filter.toBlock)
+    && (!filter.topics?.[1] || log.topics[1] === filter.topics[1])));
+  let onBlock: ((blockNumber: number) => void) | null = null;
+
+  const chain = {
+    head,
+    getLogs,
+    // Replace a block: new hash, its old logs dropped
+    mine(blockNumber: number, fork = 'a') {
+      hashes.set(blockNumber, ethers.id(`${fork}:${blockNumber}`));
+      for (let i = logs.length - 1; i >= 0; i--) if (logs[i].blockNumber === blockNumber) logs.splice(i, 1);
+    },
+    emit(blockNumber: number, tx: string, id: number, owner = USER) {
+      const encoded = iface.encodeEventLog('Stored', [owner, id]);
+      logs.push({
+        ...encoded,
+        address: CONTRACT,
+        blockNumber,
+        blockHash: hashes.get(blockNumber)!,
+        transactionHash: ethers.id(tx),
+        index: 0,
+      } as unknown as ethers.Log);
+    },
+    // Announce a new head and let the subscription's scan finish
+    async advance(blockNumber: number) {
+      chain.head = blockNumber;
+      onBlock?.(blockNumber);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    },
+    provider: {
+      getBlockNumber: async () => chain.head,
+      getBlock: async (blockNumber: number) => (hashes.has(blockNumber) ? { number: blockNumber, hash: hashes.get(blockNumber) } : null),
+      getLogs,
+      on: vi.fn((_event: string, listener: (blockNumber: number) => void) => (onBlock = listener)),
+      off: vi.fn(() => (onBlock = null)),
+    },
+  };
+  for (let n = 0; n <= head; n++) chain.mine(n);
+  return chain;
+}
+
+function eventContract(chain: ReturnType<typeof fakeChain>, options: { deploymentBlock?: number } = {}) {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const client = { getLogger: () => logger } as unknown as FhevmClient;
+  const contract = FhevmContract.create(CONTRACT, ABI, chain.provider as unknown as ethers.ContractRunner, { client, ...options });
+  return { contract, logger };
+}
+
+describe('FhevmContract.queryEvents', () => {
+  it('decodes logs and fetches the range in chunks', async () => {
+    const chain = fakeChain(100);
+    chain.emit(10, 'tx1', 1);
+    chain.emit(95, 'tx2', 2);
+    const { contract } = eventContract(chain);
+
+    const events = await contract.queryEvents('Stored', { fromBlock: 5, blockRange: 40 });
+
+    expect(events.map(event => [event.blockNumber, event.args.owner, event.args.id])).toEqual([[10, USER, 1n], [95, USER, 2n]]);
+    expect(events[0].transactionHash).toBe(ethers.id('tx1'));
+    expect(chain.getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock])).toEqual([[5, 44], [45, 84], [85, 100]]);
+  });
+
+  it('starts at the deployment block, else a bounded lookback it warns about', async () => {
+    const chain = fakeChain(25_000);
+    const deployed = eventContract(chain, { deploymentBlock: 24_500 });
+    await deployed.contract.queryEvents('Stored');
+    expect(chain.getLogs.mock.calls[0][0].fromBlock).toBe(24_500);
+    expect(deployed.logger.warn).not.toHaveBeenCalled();
+
+    chain.getLogs.mockClear();
+    const { contract, logger } = eventContract(chain);
+    await contract.queryEvents('Stored');
+    const ranges = chain.getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock]);
+    expect(ranges[0]).toEqual([15_001, 17_000]);
+    expect(ranges.at(-1)).toEqual([23_001, 25_000]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('searching only blocks 15001-25000'));
+  });
+
+  it('does not warn when the lookback covers the whole chain', async () => {
+    const chain = fakeChain(500);
+    const { contract, logger } = eventContract(chain);
+
+    await contract.queryEvents('Stored');
+
+    expect(chain.getLogs.mock.calls[0][0].fromBlock).toBe(0);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('filters by indexed arguments and leaves out unconfirmed blocks', async () => {
+    const chain = fakeChain(20);
+    chain.emit(10, 'tx1', 1);
+    chain.emit(11, 'tx2', 2, RECIPIENT);
+    chain.emit(19, 'tx3', 3);
+    const { contract } = eventContract(chain);
+
+    const events = await contract.queryEvents('Stored', { fromBlock: 0, filter: { owner: USER }, confirmations: 3 });
+
+    expect(events.map(event => event.args.id)).toEqual([1n]);
+    expect(chain.getLogs.mock.calls[0][0].toBlock).toBe(18);
+  });
+});
+
+describe('FhevmContract.on', () => {
+  it('delivers only events after the subscription, once confirmed', async () => {
+    const chain = fakeChain(10);
+    // Confirmed when subscribing
+    chain.emit(9, 'old', 0);
+    const { contract } = eventContract(chain);
+    const handler = vi.fn();
+
+    const unsubscribe = contract.on('Stored', handler, { confirmations: 2 });
+    await chain.advance(10);
+
+    chain.mine(11);
+    chain.emit(11, 'tx1', 1);
+    await chain.advance(11);
+    expect(handler).not.toHaveBeenCalled();
+
+    chain.mine(12);
+    await chain.advance(12);
+    expect(handler.mock.calls.map(([event]) => event.args.id)).toEqual([1n]);
+
+    unsubscribe();
+    expect(chain.provider.off).toHaveBeenCalledWith('block', expect.any(Function));
+  });
+
+  it('rewinds past a reorged block without repeating delivered events', async () => {
+    const chain = fakeChain(10);
+    const { contract, logger } = eventContract(chain);
+    const handler = vi.fn();
+    contract.on('Stored', handler);
+    await chain.advance(10);
+
+    chain.mine(11);
+    chain.emit(11, 'tx1', 1);
+    await chain.advance(11);
+
+    // Block 11 is replaced: tx1 is re-included, tx2 is new
+    chain.mine(11, 'b');
+    chain.emit(11, 'tx1', 1);
+    chain.emit(11, 'tx2', 2);
+    chain.mine(12);
+    chain.emit(12, 'tx3', 3);
+    await chain.advance(12);
+
+    expect(handler.mock.calls.map(([event]) => event.args.id)).toEqual([1n, 2n, 3n]);
+    expect(handler.mock.calls[1][0].blockHash).toBe(ethers.id('b:11'));
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Block 11 was reorged out'));
+  });
+
+  it('reports handler errors and keeps delivering', async () => {
+    const chain = fakeChain(10);
+    const { contract } = eventContract(chain);
+    const onError = vi.fn();
+    const handler = vi.fn().mockImplementationOnce(() => {
+      throw new Error('handler failed');
+    });
+    contract.on('Stored', handler, { onError });
+    await chain.advance(10);
+
+    chain.mine(11);
+    chain.emit(11, 'tx1', 1);
+    chain.emit(11, 'tx2', 2);
+    await chain.advance(11);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'handler failed' }));
+  });
+
+  it('throws at once for an event missing from the ABI', () => {
+    const { contract } = eventContract(fakeChain(1));
+    expect(() => contract.on('Missing' as string, vi.fn())).toThrow();
+  });
+});
@@ -1,29 +1,336 @@
 /**
  * FHEVM Contract Interactions - Universal SDK
- * Simple contract wrapper using your working implementation
+ * Contract wrapper that reads the ABI to encrypt inputs and decode events
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { createEncryptedInput, getDefaultClient } from './fhevm.js';
+import type { FhevmClient } from './client.js';
+import { toFhevmError } from './errors.js';
+import { assertHandleMatches } from './handles.js';
+import { getFheTypeByAbiType, type FheTypeName } from './fheTypes.js';
+import type { EncryptedInputBuilder, EncryptOptions } from './input.js';
 
-export class FhevmContract {
+// JSON ABI as emitted by solc/Hardhat: internalType ('externalEuint32') is what marks encrypted inputs
+export type FhevmContractAbi = readonly any[];
+
+// Hosted RPCs (Infura, Alchemy) reject eth_getLogs over large block ranges
+const DEFAULT_EVENT_LOOKBACK = 10_000;
+const DEFAULT_LOG_BLOCK_RANGE = 2_000;
+
+export interface FhevmContractOptions {
+  // JSON ABI with internalType. ethers drops internalType when parsing, so pass the raw ABI here.
+  abi?: FhevmContractAbi;
+  // Client encrypting the inputs, defaults to the default client
+  client?: FhevmClient;
+  // Forwarded to the encryption (cancellation, progress)
+  encrypt?: EncryptOptions;
+  // Block the contract was deployed in: where queryEvents() starts by default
+  deploymentBlock?: number;
+}
+
+/**
+ * Where a function expects its encrypted inputs
+ */
+export interface EncryptedFunctionLayout {
+  signature: string;
+  // Parameter count, proof included
+  arity: number;
+  // Positions of externalEuintX / externalEbool parameters and their FHE types
+  encrypted: { index: number; name: string; type: FheTypeName }[];
+  // Position of the `bytes` parameter holding the input proof
+  proofIndex: number;
+}
+
+// Decoded event arguments by event name, e.g. { MedicalRecordCreated: { recordId: string; patient: string } }
+export type FhevmEventMap = Record<string, Record<string, any>>;
+
+// Constraint for event maps declared as interfaces, which have no index signature
+export type EventArgsOf<Events> = { [K in keyof Events]: Record<string, any> };
+
+/**
+ * A decoded contract event. Indexed dynamic values (string, bytes) arrive as their keccak256 hash.
+ */
+export interface FhevmContractEvent<Args = Record<string, any>> {
+  name: string;
+  args: Args;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  log: ethers.Log;
+}
+
+// Indexed argument values by parameter name, or positional over the event's inputs (null matches anything)
+export type FhevmEventFilter = Record<string, any> | any[];
+
+export interface EventQueryOptions {
+  // Defaults to the contract's deploymentBlock, else the last 10,000 blocks
+  fromBlock?: ethers.BlockTag;
+  // Defaults to 'latest'
+  toBlock?: ethers.BlockTag;
+  filter?: FhevmEventFilter;
+  // Leave out logs from the newest blocks: 1 includes the latest block, 12 stops 11 blocks short of it
+  confirmations?: number;
+  // Blocks per eth_getLogs request, defaults to 2,000
+  blockRange?: number;
+}
+
+export interface EventSubscriptionOptions {
+  filter?: FhevmEventFilter;
+  // Blocks on top of an event's block, itself included, before it is delivered; defaults to 1 (no delay).
+  // Raise it on chains that reorg so handlers never see logs that get dropped.
+  confirmations?: number;
+  onError?: (error: Error) => void;
+}
+
+export class FhevmContract<Events extends EventArgsOf<Events> = FhevmEventMap> {
   private contract: ethers.Contract;
   private address: string;
+  private options: FhevmContractOptions;
+  private layouts = new Map<string, EncryptedFunctionLayout[]>();
 
-  constructor(contract: ethers.Contract, address: string) {
+  constructor(contract: ethers.Contract, address: string, options: FhevmContractOptions = {}) {
     this.contract = contract;
     this.address = address;
+    this.options = options;
+  }
+
+  /**
+   * Build the ethers contract and the wrapper from a JSON ABI
+   */
+  static create<Events extends EventArgsOf<Events> = FhevmEventMap>(
+    address: string,
+    abi: FhevmContractAbi,
+    runner: ethers.ContractRunner,
+    options: Omit<FhevmContractOptions, 'abi'> = {}
+  ): FhevmContract<Events> {
+    return new FhevmContract<Events>(new ethers.Contract(address, abi as ethers.InterfaceAbi, runner), address, { ...options, abi });
+  }
+
+  /**
+   * The wrapped ethers contract, for reads and plain calls
+   */
+  getContract(): ethers.Contract {
+    return this.contract;
+  }
+
+  /**
+   * Call a function with plain values in place of its encrypted parameters, in ABI order and without the proof:
+   * `write('createMedicalRecord', recordId, patientId, 120, recordType, accessLevel, metadata)`.
+   * Every encrypted value goes into one input proof. A trailing object is passed on as transaction overrides.
+   */
+  async write(functionName: string, ...args: any[]): Promise<ethers.ContractTransactionResponse> {
+    const layout = this.resolveLayout(functionName, args.length);
+    const plainCount = layout.arity - 1;
+    const overrides = args.length > plainCount ? [args[plainCount]] : [];
+
+    try {
+      const user = await this.getSignerAddress();
+      const input: EncryptedInputBuilder<FheTypeName[]> = (this.options.client ?? getDefaultClient()).input(this.address, user);
+
+      // Plain args skip the proof slot, so each parameter index past it is shifted by one
+      const plainIndex = (index: number) => (index > layout.proofIndex ? index - 1 : index);
+      for (const param of layout.encrypted) {
+        input.add(param.type, args[plainIndex(param.index)]);
+      }
+      const { handles, inputProof } = await input.encrypt(this.options.encrypt);
+
+      const callArgs: any[] = [];
+      for (let index = 0; index < layout.arity; index++) {
+        const encrypted = layout.encrypted.findIndex(param => param.index === index);
+        if (index === layout.proofIndex) callArgs.push(inputProof);
+        else if (encrypted >= 0) callArgs.push(handles[encrypted].handle);
+        else callArgs.push(args[plainIndex(index)]);
+      }
+
+      return await this.contract.getFunction(layout.signature)(...callArgs, ...overrides);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
+  }
+
+  /**
+   * write() and wait for the receipt
+   */
+  async writeAndWait(functionName: string, ...args: any[]): Promise<ethers.TransactionReceipt> {
+    const tx = await this.write(functionName, ...args);
+    return this.waitForReceipt(tx);
+  }
+
+  /**
+   * Logs of one event in a block range, decoded with the ABI, oldest first.
+   * The range is fetched in chunks of `blockRange` blocks.
+   * Without `fromBlock` or the contract's `deploymentBlock` only the last 10,000 blocks are searched, so older
+   * events are missing from the result; a warning is logged when that happens.
+   */
+  async queryEvents<K extends keyof Events & string>(
+    eventName: K,
+    options: EventQueryOptions = {}
+  ): Promise<FhevmContractEvent<Events[K]>[]> {
+    const provider = this.getProvider();
+    let toBlock = await resolveBlockNumber(provider, options.toBlock ?? 'latest');
+
+    if (options.confirmations !== undefined && options.confirmations > 1) {
+      const safeBlock = (await provider.getBlockNumber()) - options.confirmations + 1;
+      toBlock = Math.min(toBlock, safeBlock);
+    }
+
+    let fromBlock: number;
+    if (options.fromBlock !== undefined) {
+      fromBlock = await resolveBlockNumber(provider, options.fromBlock);
+    } else if (this.options.deploymentBlock !== undefined) {
+      fromBlock = this.options.deploymentBlock;
+    } else {
+      fromBlock = Math.max(0, toBlock - DEFAULT_EVENT_LOOKBACK + 1);
+      if (fromBlock > 0) {
+        (this.options.client ?? getDefaultClient()).getLogger().warn(
+          `⚠️ ${eventName}: searching only blocks ${fromBlock}-${toBlock}. Pass fromBlock or the contract's deploymentBlock for older events.`
+        );
+      }
+    }
+    const blockRange = Math.max(1, options.blockRange ?? DEFAULT_LOG_BLOCK_RANGE);
+
+    const events: FhevmContractEvent<Events[K]>[] = [];
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+      events.push(...await this.getEvents(eventName, start, Math.min(toBlock, start + blockRange - 1), options.filter));
+    }
+    return events;
+  }
+
+  /**
+   * Deliver new events once they are `confirmations` blocks deep. Returns the unsubscribe function.
+   */
+  on<K extends keyof Events & string>(
+    eventName: K,
+    handler: (event: FhevmContractEvent<Events[K]>) => void,
+    options: EventSubscriptionOptions = {}
+  ): () => void {
+    const provider = this.getProvider();
+    const depth = Math.max(1, options.confirmations ?? 1);
+    const logger = (this.options.client ?? getDefaultClient()).getLogger();
+    // Resolve the event now so a typo throws here, not on the first block
+    if (!this.contract.interface.getEvent(eventName)) throw new Error(`Event ${eventName} is not in the contract ABI.`);
+
+    // Last scanned block; its hash tells whether a reorg went deeper than `depth`
+    let cursor: { number: number; hash: string } | null = null;
+    // Events already delivered and their block, so a rescan after a deep reorg does not repeat them
+    const delivered = new Map<string, number>();
+    let scanning = false;
+    let active = true;
+
+    const fail = (error: unknown) => {
+      const err = toFhevmError(error, this.contract.interface);
+      if (options.onError) options.onError(err);
+      else logger.error(`❌ ${eventName} subscription:`, err);
+    };
+
+    const scan = async (latest: number) => {
+      if (scanning || !active) return;
+      scanning = true;
+      try {
+        const safeBlock = latest - depth + 1;
+        if (!cursor) {
+          // Only events after the subscription
+          const block = await provider.getBlock(safeBlock);
+          if (block?.hash) cursor = { number: block.number, hash: block.hash };
+          return;
+        }
+
+        const scanned = await provider.getBlock(cursor.number);
+        if (scanned?.hash !== cursor.hash) {
+          const rewound = await provider.getBlock(Math.max(0, cursor.number - depth));
+          logger.warn(`⚠️ Block ${cursor.number} was reorged out, rescanning ${eventName} from block ${rewound?.number}`);
+          if (!rewound?.hash) return;
+          cursor = { number: rewound.number, hash: rewound.hash };
+        }
+        if (safeBlock <= cursor.number) return;
+
+        const events = await this.getEvents(eventName, cursor.number + 1, safeBlock, options.filter);
+        const block = await provider.getBlock(safeBlock);
+        for (const event of events) {
+          const key = `${event.transactionHash}:${event.logIndex}`;
+          if (delivered.has(key) || !active) continue;
+          delivered.set(key, event.blockNumber);
+          try {
+            handler(event);
+          } catch (error) {
+            fail(error);
+          }
+        }
+        if (block?.hash) cursor = { number: block.number, hash: block.hash };
+        for (const [key, blockNumber] of delivered) {
+          if (blockNumber < safeBlock - 2 * depth) delivered.delete(key);
+        }
+      } catch (error) {
+        fail(error);
+      } finally {
+        scanning = false;
+      }
+    };
+
+    const onBlock = (blockNumber: number) => {
+      void scan(blockNumber);
+    };
+    provider.on('block', onBlock);
+
+    return () => {
+      active = false;
+      provider.off('block', onBlock);
+    };
+  }
+
+  /**
+   * Encrypted inputs of a function as read from the ABI, one entry per overload
+   */
+  getEncryptedLayout(functionName: string): EncryptedFunctionLayout[] {
+    const cached = this.layouts.get(functionName);
+    if (cached) return cached;
+
+    if (!this.options.abi) {
+      throw new Error('FhevmContract needs the JSON ABI (with internalType) to find encrypted parameters. Pass it as options.abi.');
+    }
+
+    const layouts = this.options.abi
+      .filter(fragment => fragment?.type === 'function' && fragment.name === functionName)
+      .map(fragment => toLayout(fragment))
+      .filter((layout): layout is EncryptedFunctionLayout => layout !== null);
+
+    this.layouts.set(functionName, layouts);
+    return layouts;
   }
 
   /**
-   * Encrypt and call contract function
+   * Call a function with an already encrypted value. With the ABI, the handle and proof go to the function's
+   * encrypted parameter and proof, and additionalParams fill the other parameters in order;
+   * without it they are passed first, as (encryptedData, proof, ...additionalParams).
    */
   async encryptAndCall(
     functionName: string,
     encryptedParams: any,
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    try {
+      await this.assertEncryptedParam(encryptedParams.encryptedData);
+
+      const layout = this.options.abi
+        ? this.getEncryptedLayout(functionName).find(candidate => candidate.encrypted.length === 1)
+        : undefined;
+      if (!layout) {
+        return await this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+      }
+
+      const rest = [...additionalParams];
+      const callArgs: any[] = [];
+      for (let index = 0; index < layout.arity; index++) {
+        if (index === layout.proofIndex) callArgs.push(encryptedParams.proof);
+        else if (index === layout.encrypted[0].index) callArgs.push(encryptedParams.encryptedData);
+        else callArgs.push(rest.shift());
+      }
+      return await this.contract.getFunction(layout.signature)(...callArgs, ...rest);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
   }
 
   /**
@@ -35,13 +342,103 @@ export class FhevmContract {
     ...additionalParams: any[]
   ): Promise<ethers.TransactionReceipt> {
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
+    return this.waitForReceipt(tx);
+  }
+
+  private async waitForReceipt(tx: ethers.ContractTransactionResponse): Promise<ethers.TransactionReceipt> {
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
     if (!receipt) {
       throw new Error("Transaction receipt is null");
     }
     return receipt;
   }
 
+  /**
+   * Pick the overload taking `argCount` plain values, optionally followed by overrides
+   */
+  private resolveLayout(functionName: string, argCount: number): EncryptedFunctionLayout {
+    const layouts = this.getEncryptedLayout(functionName);
+    if (layouts.length === 0) {
+      throw new Error(`${functionName} has no encrypted parameters in the ABI. Call it on getContract() instead.`);
+    }
+
+    const layout = layouts.find(candidate => candidate.arity - 1 === argCount)
+      ?? layouts.find(candidate => candidate.arity === argCount);
+    if (!layout) {
+      const expected = layouts.map(candidate => candidate.arity - 1).join(' or ');
+      throw new Error(`${functionName} takes ${expected} arguments without the input proof, got ${argCount}.`);
+    }
+    return layout;
+  }
+
+  private async getEvents<K extends keyof Events & string>(
+    eventName: K,
+    fromBlock: ethers.BlockTag,
+    toBlock: ethers.BlockTag,
+    filter?: FhevmEventFilter
+  ): Promise<FhevmContractEvent<Events[K]>[]> {
+    const iface = this.contract.interface;
+    const fragment = iface.getEvent(eventName);
+    if (!fragment) throw new Error(`Event ${eventName} is not in the contract ABI.`);
+
+    const values = Array.isArray(filter)
+      ? filter
+      : fragment.inputs.map(input => (filter && input.name in filter ? filter[input.name] : null));
+    const logs = await this.getProvider().getLogs({
+      address: this.address,
+      topics: iface.encodeFilterTopics(fragment, values),
+      fromBlock,
+      toBlock,
+    });
+
+    return logs.map(log => {
+      const parsed = iface.parseLog(log)!;
+      const args: Record<string, any> = {};
+      parsed.fragment.inputs.forEach((input, index) => {
+        const value = parsed.args[index];
+        args[input.name || String(index)] = value instanceof ethers.Indexed ? value.hash : value;
+      });
+
+      return {
+        name: parsed.name,
+        args: args as Events[K],
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        log,
+      };
+    });
+  }
+
+  private getProvider(): ethers.Provider {
+    const runner = this.contract.runner;
+    const provider = runner?.provider ?? (runner && 'getLogs' in runner ? (runner as ethers.Provider) : null);
+    if (!provider) throw new Error('FhevmContract needs a provider to read events.');
+    return provider;
+  }
+
+  private async getSignerAddress(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== 'function') {
+      throw new Error('FhevmContract needs a signer to encrypt inputs and send transactions.');
+    }
+    return runner.getAddress();
+  }
+
+  /**
+   * Check the handle is well formed and belongs to the connected network
+   */
+  private async assertEncryptedParam(handle: string | Uint8Array) {
+    const network = await this.contract.runner?.provider?.getNetwork();
+    assertHandleMatches(handle, undefined, network?.chainId);
+  }
+
   /**
    * Create encrypted input for contract
    */
@@ -50,4 +447,41 @@ export class FhevmContract {
   }
 }
 
+/**
+ * Read encrypted parameters and their proof from a JSON ABI function fragment, null when there are none
+ */
+function toLayout(fragment: any): EncryptedFunctionLayout | null {
+  const inputs: any[] = fragment.inputs ?? [];
+  const encrypted = inputs.flatMap((input, index) => {
+    // Only external types arrive with a proof; plain euintX parameters are handles already on-chain
+    const type = /^external/i.test(input.internalType ?? '') ? getFheTypeByAbiType(input.internalType) : undefined;
+    return type ? [{ index, name: input.name ?? '', type }] : [];
+  });
+  if (encrypted.length === 0) return null;
 
+  // The proof is the `bytes` parameter named like one, else the first `bytes` after an encrypted parameter
+  let proofIndex = inputs.findIndex(input => input.type === 'bytes' && /proof/i.test(input.name ?? ''));
+  if (proofIndex < 0) {
+    proofIndex = inputs.findIndex((input, index) => input.type === 'bytes' && index > encrypted[0].index);
+  }
+  if (proofIndex < 0) {
+    throw new Error(`${fragment.name} takes encrypted inputs but has no bytes parameter for their input proof.`);
+  }
+
+  return {
+    signature: ethers.FunctionFragment.from(fragment).format('sighash'),
+    arity: inputs.length,
+    encrypted,
+    proofIndex,
+  };
+}
+
+async function resolveBlockNumber(provider: ethers.Provider, tag: ethers.BlockTag): Promise<number> {
+  if (typeof tag === 'number') return tag;
+  if (typeof tag === 'bigint') return Number(tag);
+  if (tag === 'latest') return provider.getBlockNumber();
+  if (tag === 'earliest') return 0;
+  const block = await provider.getBlock(tag);
+  if (!block) throw new Error(`Block ${tag} not found.`);
+  return block.number;
+}
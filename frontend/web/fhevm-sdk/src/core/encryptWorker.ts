@@ -0,0 +1,61 @@
+/**
+ * FHEVM Encryption Worker - Universal SDK
+ * Worker entry used by EncryptionWorkerPool: loads the relayer SDK WASM and
+ * encrypts inputs off the main thread
+ */
+
+import { loadRelayerSdk } from './wasm.js';
+import { toInstanceConfig } from './networks.js';
+import { applyInputEntries } from './input.js';
+import { silentLogger } from './logger.js';
+import { serializeWorkerError, type WorkerRequest, type WorkerResponse } from './workerPool.js';
+
+const scope = self as any;
+
+// The relayer SDK web build writes to `window` when it is imported
+scope.window = scope.window ?? scope;
+
+let instance: Promise<any> | null = null;
+
+function post(message: WorkerResponse) {
+  scope.postMessage(message);
+}
+
+scope.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    instance = (async () => {
+      const sdk = await loadRelayerSdk(silentLogger, {
+        ...message.wasm,
+        onProgress: progress => post({ type: 'loading', progress }),
+      });
+      // No wallet in a worker: the instance reads the host contracts over JSON-RPC
+      return sdk.createInstance({ ...toInstanceConfig(message.network), network: message.rpcUrl });
+    })();
+
+    try {
+      await instance;
+      post({ type: 'ready' });
+    } catch (error) {
+      instance = null;
+      post({ type: 'error', error: serializeWorkerError(error) });
+    }
+    return;
+  }
+
+  if (message.type === 'encrypt') {
+    try {
+      if (!instance) throw new Error('Encryption worker is not initialized.');
+      const fhe = await instance;
+
+      post({ type: 'progress', id: message.id, stage: 'encrypting' });
+      const input = applyInputEntries(fhe.createEncryptedInput(message.contractAddress, message.userAddress), message.entries);
+      const result = await input.encrypt();
+
+      post({ type: 'result', id: message.id, result: { handles: result.handles, inputProof: result.inputProof } });
+    } catch (error) {
+      post({ type: 'error', id: message.id, error: serializeWorkerError(error) });
+    }
+  }
+};
@@ -0,0 +1,191 @@
+/**
+ * FHEVM Errors - Universal SDK
+ * Typed errors with stable codes, so callers never match on message strings
+ */
+
+import { ethers } from 'ethers';
+
+export type FhevmErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'RELAYER_UNAVAILABLE'
+  | 'USER_REJECTED'
+  | 'INVALID_HANDLE'
+  | 'ACL_DENIED'
+  | 'PROOF_INVALID'
+  | 'CONTRACT_REVERT'
+  | 'WASM_LOAD_FAILED';
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  // The original error, when this one wraps it
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'FhevmError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class NotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() first.') {
+    super('NOT_INITIALIZED', message);
+    this.name = 'NotInitializedError';
+  }
+}
+
+export class RelayerUnavailableError extends FhevmError {
+  // HTTP status returned by the relayer, if it answered at all
+  readonly status?: number;
+
+  constructor(message = 'Decryption service is temporarily unavailable. Please try again later.', cause?: unknown, status?: number) {
+    super('RELAYER_UNAVAILABLE', message, cause);
+    this.name = 'RelayerUnavailableError';
+    this.status = status;
+  }
+}
+
+export class UserRejectedError extends FhevmError {
+  constructor(message = 'User rejected the request.', cause?: unknown) {
+    super('USER_REJECTED', message, cause);
+    this.name = 'UserRejectedError';
+  }
+}
+
+export class InvalidHandleError extends FhevmError {
+  readonly handle?: string;
+
+  constructor(message: string, handle?: string, cause?: unknown) {
+    super('INVALID_HANDLE', message, cause);
+    this.name = 'InvalidHandleError';
+    this.handle = handle;
+  }
+}
+
+export class AclDeniedError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('ACL_DENIED', message, cause);
+    this.name = 'AclDeniedError';
+  }
+}
+
+export class ProofInvalidError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('PROOF_INVALID', message, cause);
+    this.name = 'ProofInvalidError';
+  }
+}
+
+export class ContractRevertError extends FhevmError {
+  // require()/revert("...") message
+  readonly reason?: string;
+  // Decoded custom error, e.g. InvalidKMSSignatures
+  readonly errorName?: string;
+  readonly errorArgs?: unknown[];
+  // Raw revert data
+  readonly data?: string;
+
+  constructor(message: string, details: { reason?: string; errorName?: string; errorArgs?: unknown[]; data?: string }, cause?: unknown) {
+    super('CONTRACT_REVERT', message, cause);
+    this.name = 'ContractRevertError';
+    this.reason = details.reason;
+    this.errorName = details.errorName;
+    this.errorArgs = details.errorArgs;
+    this.data = details.data;
+  }
+}
+
+export class WasmLoadError extends FhevmError {
+  // Asset that failed, when the failure is about one file
+  readonly url?: string;
+
+  constructor(message: string, url?: string, cause?: unknown) {
+    super('WASM_LOAD_FAILED', message, cause);
+    this.name = 'WasmLoadError';
+    this.url = url;
+  }
+}
+
+export function isFhevmError(error: unknown, code?: FhevmErrorCode): error is FhevmError {
+  return error instanceof FhevmError && (code === undefined || error.code === code);
+}
+
+// Custom errors raised by the FHEVM host contracts
+const PROOF_ERRORS = /Signature|Signer|Proof|Threshold/;
+const ACL_ERRORS = /NotAllowed|NotAuthorized|ACL/;
+
+// Relayer SDK error cause codes for a relayer that is down or misbehaving
+const RELAYER_CAUSES = ['RELAYER_UNKNOWN_ERROR', 'RELAYER_INTERNAL_ERROR', 'RELAYER_NO_JSON_ERROR', 'RELAYER_UNEXPECTED_JSON_ERROR'];
+
+/**
+ * Classify any error from the relayer SDK, wallet or contract into an FhevmError.
+ * Pass the contract's ABI or Interface to decode its custom errors.
+ * Errors that match no category are returned unchanged.
+ */
+export function toFhevmError(error: any, abi?: ethers.Interface | ethers.InterfaceAbi): Error {
+  if (error instanceof FhevmError) return error;
+
+  const message: string = error?.shortMessage ?? error?.message ?? String(error);
+  const cause = error?.cause;
+
+  // Wallet rejections: ethers ACTION_REJECTED, EIP-1193 4001
+  if (error?.code === 'ACTION_REJECTED' || error?.code === 4001 || error?.info?.error?.code === 4001
+    || /user rejected|user denied/i.test(message)) {
+    return new UserRejectedError(undefined, error);
+  }
+
+  // Relayer outages: no response, 5xx, rate limiting, broken JSON
+  if (cause?.code === 'RELAYER_FETCH_ERROR' && (cause.status >= 500 || cause.status === 429)) {
+    return new RelayerUnavailableError(undefined, error, cause.status);
+  }
+  if (RELAYER_CAUSES.includes(cause?.code) || /Failed to fetch|NetworkError|ECONNREFUSED|fetch failed/.test(message)) {
+    return new RelayerUnavailableError(undefined, error);
+  }
+
+  if (/is not authorized to user decrypt|not allowed to decrypt/i.test(message)) {
+    return new AclDeniedError(message, error);
+  }
+  if (/Handle .* is not of valid (length|type)|Invalid ciphertext handle/.test(message)) {
+    return new InvalidHandleError(message, undefined, error);
+  }
+
+  if (error?.code === 'CALL_EXCEPTION') {
+    return decodeContractError(error, abi);
+  }
+
+  return error instanceof Error ? error : new Error(message);
+}
+
+/**
+ * Decode a reverted call into a ContractRevertError (or Proof/ACL error for host-contract failures)
+ */
+export function decodeContractError(error: any, abi?: ethers.Interface | ethers.InterfaceAbi): FhevmError {
+  const data: string | undefined = error?.data ?? error?.info?.error?.data ?? undefined;
+  let reason: string | undefined = error?.reason ?? undefined;
+  let errorName: string | undefined = error?.revert?.name;
+  let errorArgs: unknown[] | undefined = error?.revert?.args ? [...error.revert.args] : undefined;
+
+  // ethers leaves custom errors undecoded when it does not know the ABI
+  if (!errorName && abi && data && ethers.isHexString(data) && data.length >= 10) {
+    const iface = abi instanceof ethers.Interface ? abi : new ethers.Interface(abi);
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        errorName = parsed.name;
+        errorArgs = [...parsed.args];
+        if (parsed.name === 'Error') reason = String(parsed.args[0]);
+      }
+    } catch {
+      // Unknown selector, keep the raw data
+    }
+  }
+
+  const label = reason ?? (errorName ? `${errorName}(${(errorArgs ?? []).join(', ')})` : 'unknown reason');
+  const message = `Contract reverted: ${label}`;
+
+  if (errorName && PROOF_ERRORS.test(errorName)) return new ProofInvalidError(message, error);
+  if (errorName && ACL_ERRORS.test(errorName)) return new AclDeniedError(message, error);
+
+  return new ContractRevertError(message, { reason, errorName, errorArgs, data }, error);
+}
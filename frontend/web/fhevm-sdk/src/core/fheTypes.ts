@@ -0,0 +1,54 @@
+/**
+ * FHE Types - Universal SDK
+ * Encrypted types supported by FHEVM, keyed by their Solidity name
+ */
+
+export type FheTypeName =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'eaddress'
+  | 'euint256';
+
+export interface FheTypeInfo {
+  name: FheTypeName;
+  // FheTypeId as encoded in ciphertext handles
+  id: number;
+  // Bit width of the clear value
+  bits: number;
+  // Bits counted against the relayer's per-request decryption limit
+  encryptedBits: number;
+  // Solidity type of the clear value, used to ABI-encode decryption results
+  solidityType: string;
+}
+
+export const FHE_TYPES: Record<FheTypeName, FheTypeInfo> = {
+  ebool: { name: 'ebool', id: 0, bits: 1, encryptedBits: 2, solidityType: 'bool' },
+  euint8: { name: 'euint8', id: 2, bits: 8, encryptedBits: 8, solidityType: 'uint8' },
+  euint16: { name: 'euint16', id: 3, bits: 16, encryptedBits: 16, solidityType: 'uint16' },
+  euint32: { name: 'euint32', id: 4, bits: 32, encryptedBits: 32, solidityType: 'uint32' },
+  euint64: { name: 'euint64', id: 5, bits: 64, encryptedBits: 64, solidityType: 'uint64' },
+  euint128: { name: 'euint128', id: 6, bits: 128, encryptedBits: 128, solidityType: 'uint128' },
+  eaddress: { name: 'eaddress', id: 7, bits: 160, encryptedBits: 160, solidityType: 'address' },
+  euint256: { name: 'euint256', id: 8, bits: 256, encryptedBits: 256, solidityType: 'uint256' },
+};
+
+/**
+ * Look up an FHE type by its FheTypeId
+ */
+export function getFheTypeById(id: number): FheTypeInfo | undefined {
+  return Object.values(FHE_TYPES).find(type => type.id === id);
+}
+
+/**
+ * Map an ABI internalType such as 'externalEuint32' or 'euint64' to its FHE type
+ */
+export function getFheTypeByAbiType(internalType: string | undefined): FheTypeName | undefined {
+  const match = /^(?:external)?E(bool|uint\d+|address)$/i.exec(internalType ?? '');
+  if (!match) return undefined;
+  const name = `e${match[1].toLowerCase()}`;
+  return name in FHE_TYPES ? (name as FheTypeName) : undefined;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { assertHandleMatches, getHandleFheType, isValidHandle, parseHandle } from './handles.js';
+import { InvalidHandleError } from './errors.js';
+
+const SEPOLIA = 11155111;
+
+// hash (21) | index (1) | chain id (8) | FHE type (1) | version (1)
+function makeHandle(typeId: number, { chainId = SEPOLIA, index = 0, version = 0 } = {}): string {
+  const hex = (value: number | bigint, bytes: number) => value.toString(16).padStart(bytes * 2, '0');
+  return `0x${'ab'.repeat(21)}${hex(index, 1)}${hex(chainId, 8)}${hex(typeId, 1)}${hex(version, 1)}`;
+}
+
+describe('parseHandle', () => {
+  it('decodes every field of the handle layout', () => {
+    const handle = makeHandle(4, { index: 3, version: 1 });
+
+    expect(parseHandle(handle)).toEqual({
+      handle,
+      hash: `0x${'ab'.repeat(21)}`,
+      index: 3,
+      chainId: SEPOLIA,
+      type: expect.objectContaining({ name: 'euint32', id: 4 }),
+      version: 1,
+    });
+  });
+
+  it('normalizes uppercase hex and accepts bytes', () => {
+    const handle = makeHandle(5);
+    expect(parseHandle(handle.toUpperCase().replace('0X', '0x')).handle).toBe(handle);
+    expect(parseHandle(ethers.getBytes(handle)).type.name).toBe('euint64');
+  });
+
+  it('reads computed handles (index 255) and 64-bit chain ids', () => {
+    const parsed = parseHandle(makeHandle(0, { index: 255, chainId: 2 ** 40 }));
+    expect(parsed.index).toBe(255);
+    expect(parsed.chainId).toBe(2 ** 40);
+    expect(parsed.type.name).toBe('ebool');
+  });
+
+  it.each([
+    ['short', '0x1234', /not 32 bytes/],
+    ['not hex', `0x${'zz'.repeat(32)}`, /not 32 bytes/],
+    ['zero', ethers.ZeroHash, /never initialized/],
+    ['unknown type', makeHandle(1), /unknown FHE type id 1/],
+  ])('rejects a %s handle with InvalidHandleError', (_case, handle, message) => {
+    expect(() => parseHandle(handle)).toThrow(InvalidHandleError);
+    expect(() => parseHandle(handle)).toThrow(message);
+  });
+});
+
+describe('getHandleFheType / isValidHandle', () => {
+  it('never throws', () => {
+    expect(getHandleFheType(makeHandle(7))?.name).toBe('eaddress');
+    expect(getHandleFheType('0x12')).toBeUndefined();
+    expect(isValidHandle(makeHandle(8))).toBe(true);
+    expect(isValidHandle(ethers.ZeroHash)).toBe(false);
+    expect(isValidHandle(42)).toBe(false);
+  });
+});
+
+describe('assertHandleMatches', () => {
+  const handle = makeHandle(4);
+
+  it('passes when type and chain match, or when the checks are skipped', () => {
+    expect(assertHandleMatches(handle, 'euint32', SEPOLIA).type.name).toBe('euint32');
+    expect(assertHandleMatches(handle, undefined, BigInt(SEPOLIA)).chainId).toBe(SEPOLIA);
+    expect(assertHandleMatches(handle).handle).toBe(handle);
+  });
+
+  it('names both types on a type mismatch', () => {
+    expect(() => assertHandleMatches(handle, 'euint64')).toThrow(/is euint32 \(type id 4\), expected euint64 \(type id 5\)/);
+  });
+
+  it('rejects handles from another chain', () => {
+    expect(() => assertHandleMatches(handle, undefined, 31337)).toThrow(/belongs to chain 11155111, expected chain 31337/);
+  });
+});
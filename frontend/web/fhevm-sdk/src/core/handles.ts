@@ -0,0 +1,94 @@
+/**
+ * FHEVM Ciphertext Handles - Universal SDK
+ * A handle is 32 bytes: hash (21) | index (1) | chain id (8) | FHE type (1) | version (1)
+ */
+
+import { ethers } from 'ethers';
+import { FHE_TYPES, getFheTypeById, type FheTypeInfo, type FheTypeName } from './fheTypes.js';
+import { InvalidHandleError } from './errors.js';
+
+export interface ParsedHandle {
+  // Normalized lowercase 0x-prefixed hex
+  handle: string;
+  // First 21 bytes, derived from the ciphertext
+  hash: string;
+  // Position of the value in its encrypted input (255 for computed handles)
+  index: number;
+  chainId: number;
+  type: FheTypeInfo;
+  version: number;
+}
+
+/**
+ * Read the FHE type encoded in a handle, undefined if the handle is malformed
+ */
+export function getHandleFheType(handle: string): FheTypeInfo | undefined {
+  if (!ethers.isHexString(handle, 32)) return undefined;
+  return getFheTypeById(parseInt(handle.slice(62, 64), 16));
+}
+
+/**
+ * Decode a handle, throws InvalidHandleError if it is not a valid FHEVM handle
+ */
+export function parseHandle(handle: string | Uint8Array): ParsedHandle {
+  const hex = typeof handle === 'string' ? handle.toLowerCase() : ethers.hexlify(handle);
+
+  if (!ethers.isHexString(hex, 32)) {
+    throw new InvalidHandleError(`Handle ${hex} is not 32 bytes of hex`, hex);
+  }
+  if (/^0x0{64}$/.test(hex)) {
+    throw new InvalidHandleError('Handle is zero: the value was never initialized on-chain', hex);
+  }
+
+  const typeId = parseInt(hex.slice(62, 64), 16);
+  const type = getFheTypeById(typeId);
+  if (!type) {
+    throw new InvalidHandleError(`Handle ${hex} has unknown FHE type id ${typeId}`, hex);
+  }
+
+  return {
+    handle: hex,
+    hash: `0x${hex.slice(2, 44)}`,
+    index: parseInt(hex.slice(44, 46), 16),
+    chainId: Number(BigInt(`0x${hex.slice(46, 62)}`)),
+    type,
+    version: parseInt(hex.slice(64, 66), 16),
+  };
+}
+
+export function isValidHandle(handle: unknown): handle is string {
+  if (typeof handle !== 'string' && !(handle instanceof Uint8Array)) return false;
+  try {
+    parseHandle(handle);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Guard run before decryption or contract submission, so a mismatch fails here
+ * instead of deep inside the relayer or on-chain. Pass undefined to skip a check.
+ */
+export function assertHandleMatches(
+  handle: string | Uint8Array,
+  expectedType?: FheTypeName,
+  chainId?: number | bigint
+): ParsedHandle {
+  const parsed = parseHandle(handle);
+
+  if (expectedType && parsed.type.name !== expectedType) {
+    throw new InvalidHandleError(
+      `Handle ${parsed.handle} is ${parsed.type.name} (type id ${parsed.type.id}), expected ${expectedType} (type id ${FHE_TYPES[expectedType].id})`,
+      parsed.handle
+    );
+  }
+  if (chainId !== undefined && parsed.chainId !== Number(chainId)) {
+    throw new InvalidHandleError(
+      `Handle ${parsed.handle} belongs to chain ${parsed.chainId}, expected chain ${chainId}`,
+      parsed.handle
+    );
+  }
+
+  return parsed;
+}
@@ -3,8 +3,21 @@
  * Simple, clean implementation that matches showcase APIs
  */
 
-// Core FHEVM functionality - All functions consolidated in fhevm.ts
+// Core FHEVM functionality - free functions in fhevm.ts wrap a default FhevmClient
 export * from './fhevm.js';
+export * from './client.js';
+export * from './networks.js';
+export * from './fheTypes.js';
+export * from './input.js';
+export * from './session.js';
+export * from './handles.js';
+export * from './values.js';
+export * from './batch.js';
+export * from './provider.js';
+export * from './errors.js';
+export * from './logger.js';
+export * from './resilience.js';
+export * from './wasm.js';
+export * from './workerPool.js';
 export * from './contracts.js';
-
-
+export * from './wallets.js';
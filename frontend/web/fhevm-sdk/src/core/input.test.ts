@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EncryptedInputBuilder, type EncryptedInputEntry } from './input.js';
+
+const CONTRACT = '0x00000000000000000000000000000000000000c0';
+const USER = '0x00000000000000000000000000000000000000a1';
+
+// Records the entries and answers one handle per entry
+function builder() {
+  const encryptor = vi.fn(async (_contract: string, _user: string, entries: EncryptedInputEntry[]) => ({
+    handles: entries.map((_, index) => new Uint8Array(32).fill(index)),
+    inputProof: new Uint8Array([1]),
+  }));
+  return { input: new EncryptedInputBuilder(null, CONTRACT, USER, { encryptor }), encryptor };
+}
+
+describe('EncryptedInputBuilder', () => {
+  it('normalizes each value by its FHE type', async () => {
+    const { input, encryptor } = builder();
+
+    const { handles } = await input
+      .bool(1)
+      .u16(120)
+      .add('euint64', 7)
+      .add('eaddress', '0x00000000000000000000000000000000000000ab')
+      .encrypt();
+
+    expect(encryptor.mock.calls[0][2]).toEqual([
+      { type: 'ebool', value: true },
+      { type: 'euint16', value: 120n },
+      { type: 'euint64', value: 7n },
+      { type: 'eaddress', value: '0x00000000000000000000000000000000000000AB' },
+    ]);
+    expect(handles.map(handle => handle.type)).toEqual(['ebool', 'euint16', 'euint64', 'eaddress']);
+  });
+
+  it('applies the same checks to add() as to the typed methods', () => {
+    const { input } = builder();
+
+    expect(() => input.add('ebool', 2)).toThrow(/not a valid ebool/);
+    expect(() => input.add('euint8', 256)).toThrow(/out of range for euint8/);
+    expect(() => input.add('eaddress', '0x1234')).toThrow(/not a valid eaddress/);
+    expect(input.types).toEqual([]);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * FHEVM Encrypted Input Builder - Universal SDK
+ * Packs several values of different FHE types into a single input proof
+ */
+
+import { ethers } from 'ethers';
+import { FHE_TYPES, type FheTypeName } from './fheTypes.js';
+
+export interface EncryptedHandle<T extends FheTypeName = FheTypeName> {
+  type: T;
+  handle: string;
+}
+
+export interface EncryptedInputResult<T extends FheTypeName[] = FheTypeName[]> {
+  // One handle per added value, in the order they were added
+  handles: { [K in keyof T]: EncryptedHandle<T[K]> };
+  inputProof: string;
+}
+
+// Clear value each FHE type is encrypted from, as passed to the relayer SDK
+export interface FheClearInputs {
+  ebool: boolean;
+  euint8: bigint;
+  euint16: bigint;
+  euint32: bigint;
+  euint64: bigint;
+  euint128: bigint;
+  eaddress: string;
+  euint256: bigint;
+}
+
+// What the builder accepts for each FHE type before range checks
+export interface FheInputValues {
+  ebool: boolean | number | bigint;
+  euint8: number | bigint;
+  euint16: number | bigint;
+  euint32: number | bigint;
+  euint64: number | bigint;
+  euint128: number | bigint;
+  eaddress: string;
+  euint256: number | bigint;
+}
+
+// One value to encrypt, its type deciding the value's type: { type: 'ebool', value: true }
+export type EncryptedInputEntry<K extends FheTypeName = FheTypeName> = {
+  [P in K]: { type: P; value: FheClearInputs[P] };
+}[K];
+
+/**
+ * Raw relayer SDK encryption output
+ */
+export interface RawEncryptResult {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+export interface EncryptionProgress {
+  stage: 'queued' | 'loading' | 'encrypting' | 'done';
+  // Jobs ahead of this one while queued
+  position?: number;
+}
+
+export interface EncryptOptions {
+  // Cancels a queued job; a running worker job is stopped by terminating its worker
+  signal?: AbortSignal;
+  onProgress?: (progress: EncryptionProgress) => void;
+}
+
+/**
+ * Encrypts entries into one input proof, on this thread or in a worker
+ */
+export type InputEncryptor = (
+  contractAddress: string,
+  userAddress: string,
+  entries: EncryptedInputEntry[],
+  options?: EncryptOptions
+) => Promise<RawEncryptResult>;
+
+export interface EncryptedInputBuilderOptions {
+  // Defaults to encrypting with the instance on this thread
+  encryptor?: InputEncryptor;
+}
+
+// Method used on the relayer SDK's RelayerEncryptedInput for each type
+const ADD_METHODS: Record<FheTypeName, string> = {
+  ebool: 'addBool',
+  euint8: 'add8',
+  euint16: 'add16',
+  euint32: 'add32',
+  euint64: 'add64',
+  euint128: 'add128',
+  eaddress: 'addAddress',
+  euint256: 'add256',
+};
+
+// Validates and normalizes a value for each FHE type
+const INPUT_CHECKS: { [K in FheTypeName]: (value: FheInputValues[K]) => FheClearInputs[K] } = {
+  ebool: checkBool,
+  euint8: value => checkUint(value, 'euint8'),
+  euint16: value => checkUint(value, 'euint16'),
+  euint32: value => checkUint(value, 'euint32'),
+  euint64: value => checkUint(value, 'euint64'),
+  euint128: value => checkUint(value, 'euint128'),
+  eaddress: checkAddress,
+  euint256: value => checkUint(value, 'euint256'),
+};
+
+/**
+ * Fluent builder: `client.input(contract, user).bool(true).u16(120).u64(lab).encrypt()`
+ */
+export class EncryptedInputBuilder<T extends FheTypeName[] = []> {
+  private contractAddress: string;
+  private userAddress: string;
+  private encryptor: InputEncryptor;
+  private entries: EncryptedInputEntry[] = [];
+
+  constructor(instance: any, contractAddress: string, userAddress: string, options: EncryptedInputBuilderOptions = {}) {
+    if (!ethers.isAddress(contractAddress)) throw new Error(`Invalid contract address: ${contractAddress}`);
+    if (!ethers.isAddress(userAddress)) throw new Error(`Invalid user address: ${userAddress}`);
+
+    this.contractAddress = contractAddress;
+    this.userAddress = userAddress;
+    this.encryptor = options.encryptor ?? ((contract, user, entries) => encryptLocally(instance, contract, user, entries));
+  }
+
+  bool(value: boolean | number | bigint): EncryptedInputBuilder<[...T, 'ebool']> {
+    return this.add('ebool', value);
+  }
+
+  u8(value: number | bigint): EncryptedInputBuilder<[...T, 'euint8']> {
+    return this.add('euint8', value);
+  }
+
+  u16(value: number | bigint): EncryptedInputBuilder<[...T, 'euint16']> {
+    return this.add('euint16', value);
+  }
+
+  u32(value: number | bigint): EncryptedInputBuilder<[...T, 'euint32']> {
+    return this.add('euint32', value);
+  }
+
+  u64(value: number | bigint): EncryptedInputBuilder<[...T, 'euint64']> {
+    return this.add('euint64', value);
+  }
+
+  u128(value: number | bigint): EncryptedInputBuilder<[...T, 'euint128']> {
+    return this.add('euint128', value);
+  }
+
+  u256(value: number | bigint): EncryptedInputBuilder<[...T, 'euint256']> {
+    return this.add('euint256', value);
+  }
+
+  address(value: string): EncryptedInputBuilder<[...T, 'eaddress']> {
+    return this.add('eaddress', value);
+  }
+
+  /**
+   * Add a value by FHE type name, e.g. when the type comes from an ABI
+   */
+  add<U extends FheTypeName>(type: U, value: FheInputValues[U]): EncryptedInputBuilder<[...T, U]> {
+    const check: (value: FheInputValues[U]) => FheClearInputs[U] = INPUT_CHECKS[type];
+    return this.push<U>({ type, value: check(value) });
+  }
+
+  get types(): FheTypeName[] {
+    return this.entries.map(entry => entry.type);
+  }
+
+  /**
+   * Encrypt every added value into one input proof
+   */
+  async encrypt(options: EncryptOptions = {}): Promise<EncryptedInputResult<T>> {
+    if (this.entries.length === 0) {
+      throw new Error('Encrypted input is empty. Add at least one value before calling encrypt().');
+    }
+
+    const result = await this.encryptor(this.contractAddress, this.userAddress, [...this.entries], options);
+    if (!result || !Array.isArray(result.handles) || result.handles.length !== this.entries.length) {
+      throw new Error('Invalid encrypt result structure');
+    }
+
+    return {
+      handles: result.handles.map((handle: Uint8Array | string, i: number) => ({
+        type: this.entries[i].type,
+        handle: ethers.hexlify(handle),
+      })) as EncryptedInputResult<T>['handles'],
+      inputProof: ethers.hexlify(result.inputProof),
+    };
+  }
+
+  // The type parameter only records what was added, so the builder itself is returned
+  private push<U extends FheTypeName>(entry: EncryptedInputEntry<U>): EncryptedInputBuilder<[...T, U]>;
+  private push(entry: EncryptedInputEntry): EncryptedInputBuilder<FheTypeName[]> {
+    this.entries.push(entry);
+    return this;
+  }
+}
+
+/**
+ * Add entries to a relayer SDK RelayerEncryptedInput
+ */
+export function applyInputEntries(input: any, entries: EncryptedInputEntry[]) {
+  for (const entry of entries) {
+    input[ADD_METHODS[entry.type]](entry.value);
+  }
+  return input;
+}
+
+/**
+ * Encrypt on the calling thread. A relayer input can only be encrypted once,
+ * so every call builds a fresh one.
+ */
+export async function encryptLocally(
+  instance: any,
+  contractAddress: string,
+  userAddress: string,
+  entries: EncryptedInputEntry[]
+): Promise<RawEncryptResult> {
+  const input = applyInputEntries(instance.createEncryptedInput(contractAddress, userAddress), entries);
+  return input.encrypt();
+}
+
+function checkBool(value: boolean | number | bigint): boolean {
+  if (typeof value === 'boolean') return value;
+  if (BigInt(value) !== 0n && BigInt(value) !== 1n) {
+    throw new RangeError(`Value ${value} is not a valid ebool (expected true/false, 0 or 1)`);
+  }
+  return BigInt(value) === 1n;
+}
+
+function checkAddress(value: string): string {
+  if (!ethers.isAddress(value)) {
+    throw new RangeError(`Value ${value} is not a valid eaddress`);
+  }
+  return ethers.getAddress(value);
+}
+
+/**
+ * Range-check an unsigned integer against the bit width of its FHE type
+ */
+function checkUint(value: number | bigint, type: FheTypeName): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`Value ${value} is not a safe integer for ${type}; pass a bigint instead`);
+  }
+
+  const big = BigInt(value);
+  const max = (1n << BigInt(FHE_TYPES[type].bits)) - 1n;
+  if (big < 0n || big > max) {
+    throw new RangeError(`Value ${value} is out of range for ${type} (0 to ${max})`);
+  }
+  return big;
+}
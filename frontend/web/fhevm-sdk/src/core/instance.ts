@@ -0,0 +1,70 @@
+/**
+ * FHEVM Instance Factories - Environment-Aware
+ * Builds relayer-backed FHEVM instances for browser and Node.js environments
+ */
+
+import { ethers } from 'ethers';
+import type { FhevmLogger } from './logger.js';
+import { createEip1193Provider } from './provider.js';
+import { toInstanceConfig, type FhevmNetworkConfig } from './networks.js';
+import { loadRelayerSdk, type FhevmWasmConfig } from './wasm.js';
+import { getWalletProvider } from './wallets.js';
+
+/**
+ * Create FHEVM instance for browser environment
+ */
+export async function createBrowserFheInstance(logger: FhevmLogger, network: FhevmNetworkConfig, wasm: FhevmWasmConfig = {}) {
+  // The wallet picked through EIP-6963 discovery, else window.ethereum
+  const walletProvider = getWalletProvider();
+  if (!walletProvider) {
+    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+  }
+
+  // Imported as a module with self-hosted WASM, no CDN script tag needed
+  const { createInstance } = await loadRelayerSdk(logger, wasm);
+
+  const config = { ...toInstanceConfig(network), network: walletProvider };
+
+  try {
+    return await createInstance(config);
+  } catch (err) {
+    logger.error('FHEVM browser instance creation failed:', err);
+    throw err;
+  }
+}
+
+/**
+ * Create FHEVM instance for Node.js environment
+ * REAL FUNCTIONALITY - uses actual RelayerSDK with a signer-backed EIP-1193 provider
+ */
+export async function createNodeFheInstance(
+  logger: FhevmLogger,
+  network: FhevmNetworkConfig,
+  provider: ethers.JsonRpcProvider,
+  signer?: ethers.Signer
+) {
+  try {
+    logger.info('🚀 Initializing REAL FHEVM Node.js instance...');
+
+    // Use eval to prevent webpack from analyzing these imports
+    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
+    const { createInstance } = relayerSDKModule;
+
+    const chainId = Number((await provider.getNetwork()).chainId);
+    if (chainId !== network.chainId) {
+      throw new Error(`RPC endpoint reports chain id ${chainId}, expected ${network.chainId} for network "${network.name}".`);
+    }
+
+    const config = {
+      ...toInstanceConfig(network),
+      network: createEip1193Provider(provider, signer)
+    };
+
+    const instance = await createInstance(config);
+    logger.info('✅ REAL FHEVM Node.js instance created successfully!');
+    return instance;
+  } catch (err) {
+    logger.error('FHEVM Node.js instance creation failed:', err);
+    throw err;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * FHEVM Logging and Telemetry - Universal SDK
+ * The SDK is silent by default: plug in a logger to see diagnostics and
+ * telemetry hooks to feed timings and counters into your own monitoring
+ */
+
+export type FhevmLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface FhevmLogger {
+  debug: (...args: any[]) => void;
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+  error: (...args: any[]) => void;
+}
+
+const LEVELS: FhevmLogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+const noop = () => {};
+
+export const silentLogger: FhevmLogger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+/**
+ * Console logger that drops messages below `level`
+ */
+export function createConsoleLogger(level: FhevmLogLevel = 'info', prefix = '[fhevm-sdk]'): FhevmLogger {
+  const enabled = (target: FhevmLogLevel) => LEVELS.indexOf(target) >= LEVELS.indexOf(level);
+
+  return {
+    debug: enabled('debug') ? (...args) => console.debug(prefix, ...args) : noop,
+    info: enabled('info') ? (...args) => console.info(prefix, ...args) : noop,
+    warn: enabled('warn') ? (...args) => console.warn(prefix, ...args) : noop,
+    error: enabled('error') ? (...args) => console.error(prefix, ...args) : noop,
+  };
+}
+
+export type FhevmTimingMetric =
+  | 'init.duration'
+  | 'encrypt.duration'
+  | 'relayer.userDecrypt.latency'
+  | 'relayer.publicDecrypt.latency';
+
+export type FhevmCountMetric =
+  | 'encrypt.values'
+  | 'decrypt.batchSize'
+  | 'relayer.retries'
+  | 'errors';
+
+export type FhevmMetricTags = Record<string, string | number>;
+
+/**
+ * Optional hooks, e.g. wired to StatsD, OpenTelemetry or a custom dashboard
+ */
+export interface FhevmTelemetry {
+  onTiming?: (metric: FhevmTimingMetric, durationMs: number, tags?: FhevmMetricTags) => void;
+  onCount?: (metric: FhevmCountMetric, value: number, tags?: FhevmMetricTags) => void;
+}
+
+/**
+ * Report a counter; a failing hook never breaks the SDK call
+ */
+export function reportCount(telemetry: FhevmTelemetry | undefined, metric: FhevmCountMetric, value: number, tags?: FhevmMetricTags) {
+  try {
+    telemetry?.onCount?.(metric, value, tags);
+  } catch {
+    // Monitoring must not affect encryption or decryption
+  }
+}
+
+/**
+ * Run `fn` and report its duration, whether it resolves or rejects
+ */
+export async function timed<T>(
+  telemetry: FhevmTelemetry | undefined,
+  metric: FhevmTimingMetric,
+  fn: () => Promise<T>,
+  tags?: FhevmMetricTags
+): Promise<T> {
+  const start = Date.now();
+  let outcome = 'ok';
+  try {
+    return await fn();
+  } catch (error) {
+    outcome = 'error';
+    throw error;
+  } finally {
+    try {
+      telemetry?.onTiming?.(metric, Date.now() - start, { ...tags, outcome });
+    } catch {
+      // Monitoring must not affect encryption or decryption
+    }
+  }
+}
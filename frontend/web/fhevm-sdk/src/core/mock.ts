@@ -0,0 +1,137 @@
+/**
+ * FHEVM Mock Instance - Universal SDK
+ * Runs encrypt, user-decrypt and public-decrypt against a local Hardhat node
+ * with the fhevm plugin, without Sepolia or the Zama relayer
+ */
+
+import { ethers } from 'ethers';
+import type { FhevmLogger } from './logger.js';
+import type { FhevmNetworkConfig } from './networks.js';
+
+// JSON-RPC method exposed by the fhevm hardhat plugin
+const RELAYER_METADATA_METHOD = 'fhevm_relayer_metadata';
+
+// Relayer JSON-RPC methods of the mock node and the HTTP endpoints serving them
+const RELAYER_ROUTES: Record<string, string> = {
+  fhevm_relayer_v1_input_proof: '/v1/input-proof',
+  fhevm_relayer_v1_user_decrypt: '/v1/user-decrypt',
+  fhevm_relayer_v1_public_decrypt: '/v1/public-decrypt',
+};
+
+interface FhevmRelayerMetadata {
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+}
+
+/**
+ * Create a mock FHEVM instance backed by @fhevm/mock-utils
+ */
+export async function createMockFheInstance(logger: FhevmLogger, network: FhevmNetworkConfig, rpcUrl?: string) {
+  const url = rpcUrl || network.rpcUrl;
+  if (!url) {
+    throw new Error(`Mock mode needs an rpcUrl for network "${network.name}".`);
+  }
+
+  logger.info(`🧪 Initializing mock FHEVM instance against ${url}...`);
+
+  // Use eval to keep the optional peer dependency out of browser bundles
+  const mockUtilsModule = await eval('import("@fhevm/mock-utils")');
+  const { MockFhevmInstance } = mockUtilsModule;
+
+  const provider = new ethers.JsonRpcProvider(url);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  if (chainId !== network.chainId) {
+    throw new Error(`Mock node at ${url} reports chain id ${chainId}, expected ${network.chainId} for network "${network.name}".`);
+  }
+
+  let metadata: FhevmRelayerMetadata;
+  try {
+    metadata = await provider.send(RELAYER_METADATA_METHOD, []);
+  } catch (err) {
+    throw new Error(`Node at ${url} is not a Hardhat node with the fhevm plugin (${RELAYER_METADATA_METHOD} failed).`);
+  }
+
+  // With a relayerUrl (e.g. the relayer emulator) relayer calls go over HTTP like in production
+  const relayerProvider = network.relayerUrl ? createHttpRelayerProvider(network.relayerUrl, provider) : provider;
+  if (network.relayerUrl) logger.info(`🧪 Relayer calls go to ${network.relayerUrl}`);
+
+  try {
+    const instance = await MockFhevmInstance.create(
+      relayerProvider,
+      provider,
+      {
+        aclContractAddress: metadata.ACLAddress,
+        inputVerifierContractAddress: metadata.InputVerifierAddress,
+        kmsContractAddress: metadata.KMSVerifierAddress,
+        verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+        verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+        chainId,
+        gatewayChainId: network.gatewayChainId,
+      },
+      {
+        // Signers, threshold and EIP-712 domains are read from the deployed host contracts
+        inputVerifierProperties: {},
+        kmsVerifierProperties: {},
+      }
+    );
+    logger.info('✅ Mock FHEVM instance created successfully');
+    return instance;
+  } catch (err) {
+    logger.error('FHEVM mock instance creation failed:', err);
+    throw err;
+  }
+}
+
+/**
+ * Minimal provider for @fhevm/mock-utils that sends relayer methods to an HTTP relayer.
+ * Failures carry the relayer SDK's error causes, so they classify the same way.
+ */
+export function createHttpRelayerProvider(relayerUrl: string, node: Pick<ethers.JsonRpcProvider, 'send'>) {
+  const baseUrl = relayerUrl.replace(/\/+$/, '');
+
+  return {
+    async send(method: string, params: any[]) {
+      const route = RELAYER_ROUTES[method];
+      if (!route) return node.send(method, params);
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}${route}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params[0]),
+        });
+      } catch (err) {
+        throw relayerError(`Relayer at ${baseUrl} did not respond`, { code: 'RELAYER_UNKNOWN_ERROR', error: err });
+      }
+
+      if (!response.ok) {
+        const message = await response.text().catch(() => '');
+        throw relayerError(`Relayer ${route} failed with HTTP ${response.status}: ${message}`, {
+          code: 'RELAYER_FETCH_ERROR',
+          status: response.status,
+        });
+      }
+
+      let json: any;
+      try {
+        json = await response.json();
+      } catch (err) {
+        throw relayerError(`Relayer ${route} returned invalid JSON`, { code: 'RELAYER_NO_JSON_ERROR', error: err });
+      }
+      if (json?.response === undefined || json.response === null) {
+        throw relayerError(`Relayer ${route} returned unexpected JSON`, { code: 'RELAYER_UNEXPECTED_JSON_ERROR' });
+      }
+
+      // mock-utils expects the single result, the relayer wraps decryptions in a list
+      return Array.isArray(json.response) ? json.response[0] : json.response;
+    },
+  };
+}
+
+function relayerError(message: string, cause: { code: string; status?: number; error?: unknown }): Error {
+  const error = new Error(message) as Error & { cause?: unknown };
+  error.cause = cause;
+  return error;
+}
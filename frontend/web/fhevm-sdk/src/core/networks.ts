@@ -0,0 +1,93 @@
+/**
+ * FHEVM Network Profiles - Universal SDK
+ * Describes the host chain, gateway and relayer an instance talks to
+ */
+
+export interface FhevmNetworkConfig {
+  name: string;
+  // FHEVM host chain id
+  chainId: number;
+  // Gateway chain id
+  gatewayChainId: number;
+  // ACL_CONTRACT_ADDRESS (FHEVM host chain)
+  aclContractAddress: string;
+  // KMS_VERIFIER_CONTRACT_ADDRESS (FHEVM host chain)
+  kmsContractAddress: string;
+  // INPUT_VERIFIER_CONTRACT_ADDRESS (FHEVM host chain)
+  inputVerifierContractAddress: string;
+  // DECRYPTION_ADDRESS (gateway chain)
+  verifyingContractAddressDecryption: string;
+  // INPUT_VERIFICATION_ADDRESS (gateway chain)
+  verifyingContractAddressInputVerification: string;
+  relayerUrl?: string;
+  // JSON-RPC endpoint used when no wallet provider is available (Node.js)
+  rpcUrl?: string;
+}
+
+/**
+ * Zama Sepolia testnet, same values as the relayer SDK's SepoliaConfig
+ */
+export const SepoliaNetwork: FhevmNetworkConfig = {
+  name: 'sepolia',
+  chainId: 11155111,
+  gatewayChainId: 10901,
+  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+  verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  relayerUrl: 'https://relayer.testnet.zama.org',
+  rpcUrl: 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3',
+};
+
+/**
+ * Local Hardhat node running the fhevm plugin (mock coprocessor, no relayer).
+ * Host addresses follow ZamaConfig._getLocalConfig().
+ */
+export const HardhatNetwork: FhevmNetworkConfig = {
+  name: 'hardhat',
+  chainId: 31337,
+  gatewayChainId: 55815,
+  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  rpcUrl: 'http://127.0.0.1:8545',
+};
+
+export const FhevmNetworks = {
+  sepolia: SepoliaNetwork,
+  hardhat: HardhatNetwork,
+};
+
+export type FhevmNetworkName = keyof typeof FhevmNetworks;
+
+/**
+ * Resolve a preset name or a full profile into a network profile
+ */
+export function resolveNetwork(network: FhevmNetworkName | FhevmNetworkConfig = 'sepolia'): FhevmNetworkConfig {
+  if (typeof network !== 'string') return network;
+
+  const preset = FhevmNetworks[network];
+  if (!preset) {
+    throw new Error(`Unknown FHEVM network "${network}". Use one of: ${Object.keys(FhevmNetworks).join(', ')}`);
+  }
+  return preset;
+}
+
+/**
+ * Convert a network profile into the relayer SDK's createInstance config
+ */
+export function toInstanceConfig(network: FhevmNetworkConfig) {
+  return {
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    relayerUrl: network.relayerUrl,
+  };
+}
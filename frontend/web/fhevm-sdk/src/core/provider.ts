@@ -0,0 +1,102 @@
+/**
+ * FHEVM Node.js EIP-1193 Provider - Universal SDK
+ * Exposes an ethers JSON-RPC provider and optional signer as an EIP-1193 object
+ */
+
+import { ethers } from 'ethers';
+
+export interface Eip1193Provider {
+  request: (args: { method: string; params?: any[] }) => Promise<any>;
+  on: (event: string, listener: (...args: any[]) => void) => void;
+  removeListener: (event: string, listener: (...args: any[]) => void) => void;
+}
+
+/**
+ * Build the signer for the Node.js path from a Signer or a private key
+ */
+export function resolveNodeSigner(
+  provider: ethers.JsonRpcProvider,
+  signer?: ethers.Signer,
+  privateKey?: string
+): ethers.Signer | undefined {
+  if (signer) {
+    // Keep the signer's own provider if it has one, otherwise bind it to the RPC URL
+    return signer.provider ? signer : signer.connect(provider);
+  }
+  if (privateKey) {
+    return new ethers.Wallet(privateKey, provider);
+  }
+  return undefined;
+}
+
+/**
+ * Wrap a JSON-RPC provider and optional signer into an EIP-1193 provider.
+ * Account and signing methods go to the signer; everything else is proxied to the node.
+ */
+export function createEip1193Provider(provider: ethers.JsonRpcProvider, signer?: ethers.Signer): Eip1193Provider {
+  const requireSigner = (method: string) => {
+    if (!signer) {
+      throw new Error(`${method} requires a signer. Pass a signer or privateKey when initializing.`);
+    }
+    return signer;
+  };
+
+  return {
+    request: async ({ method, params = [] }) => {
+      switch (method) {
+        case 'eth_chainId':
+          return ethers.toQuantity((await provider.getNetwork()).chainId);
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return signer ? [await signer.getAddress()] : [];
+        case 'eth_sendTransaction': {
+          const tx = await requireSigner(method).sendTransaction(toTransactionRequest(params[0]));
+          return tx.hash;
+        }
+        case 'eth_signTransaction':
+          return requireSigner(method).signTransaction(toTransactionRequest(params[0]));
+        case 'eth_signTypedData':
+        case 'eth_signTypedData_v4': {
+          const typedData = typeof params[1] === 'string' ? JSON.parse(params[1]) : params[1];
+          const { EIP712Domain, ...types } = typedData.types;
+          return requireSigner(method).signTypedData(typedData.domain, types, typedData.message);
+        }
+        case 'personal_sign':
+          return requireSigner(method).signMessage(toMessage(params[0]));
+        case 'eth_sign':
+          return requireSigner(method).signMessage(toMessage(params[1]));
+        default:
+          // Reads (eth_call, eth_getLogs, eth_blockNumber, ...) go straight to the node
+          return provider.send(method, params);
+      }
+    },
+    on: () => {},
+    removeListener: () => {}
+  };
+}
+
+/**
+ * Convert a JSON-RPC transaction object (hex quantities, `gas`) to an ethers request
+ */
+function toTransactionRequest(tx: Record<string, any>): ethers.TransactionRequest {
+  const quantity = (value: any) => (value === undefined || value === null ? undefined : BigInt(value));
+
+  return {
+    from: tx.from,
+    to: tx.to,
+    data: tx.data ?? tx.input,
+    value: quantity(tx.value),
+    gasLimit: quantity(tx.gas ?? tx.gasLimit),
+    gasPrice: quantity(tx.gasPrice),
+    maxFeePerGas: quantity(tx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+    nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+    type: tx.type === undefined ? undefined : Number(tx.type),
+    chainId: quantity(tx.chainId),
+    accessList: tx.accessList,
+  };
+}
+
+function toMessage(data: string): string | Uint8Array {
+  return ethers.isHexString(data) ? ethers.getBytes(data) : data;
+}
@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RelayerResilience, type RelayerStatus } from './resilience.js';
+import { AclDeniedError, RelayerUnavailableError } from './errors.js';
+
+// No backoff wait, so retries happen within a test tick
+const FAST_RETRY = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+function outage() {
+  return new RelayerUnavailableError('relayer down', undefined, 503);
+}
+
+describe('RelayerResilience', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries relayer outages and reports each retry', async () => {
+    const resilience = new RelayerResilience({ retry: FAST_RETRY });
+    const onRetry = vi.fn();
+    resilience.onRetry = onRetry;
+    const fn = vi.fn().mockRejectedValueOnce(outage()).mockRejectedValueOnce(outage()).mockResolvedValue('ok');
+
+    await expect(resilience.run('userDecrypt', fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([operation, attempt]) => [operation, attempt])).toEqual([
+      ['userDecrypt', 1],
+      ['userDecrypt', 2],
+    ]);
+    expect(resilience.getStatus()).toMatchObject({ status: 'AVAILABLE', circuit: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('gives up after the configured retries with the relayer error', async () => {
+    const resilience = new RelayerResilience({ retry: FAST_RETRY });
+    const fn = vi.fn().mockRejectedValue(outage());
+
+    await expect(resilience.run('publicDecrypt', fn)).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(resilience.getStatus().consecutiveFailures).toBe(3);
+  });
+
+  it('does not retry or count errors that are not outages', async () => {
+    const resilience = new RelayerResilience({ retry: FAST_RETRY });
+    const fn = vi.fn().mockRejectedValue(new AclDeniedError('not allowed'));
+
+    await expect(resilience.run('userDecrypt', fn)).rejects.toBeInstanceOf(AclDeniedError);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(resilience.getStatus().consecutiveFailures).toBe(0);
+  });
+
+  it('classifies relayer SDK errors before deciding to retry', async () => {
+    const resilience = new RelayerResilience({ retry: FAST_RETRY });
+    // The relayer SDK puts the fetch details on the error's cause
+    const relayerError = Object.assign(new Error('Relayer request failed'), { cause: { code: 'RELAYER_FETCH_ERROR', status: 502 } });
+    const fn = vi.fn().mockRejectedValueOnce(relayerError).mockResolvedValue('ok');
+
+    await expect(resilience.run('encrypt', fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('turns a call slower than the operation timeout into an outage', async () => {
+    vi.useFakeTimers();
+    const resilience = new RelayerResilience({ timeouts: { publicDecrypt: 1_000 }, retry: { retries: 0 } });
+
+    const result = resilience.run('publicDecrypt', () => new Promise(() => {}));
+    const assertion = expect(result).rejects.toThrow(/did not answer publicDecrypt within 1000 ms/);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await assertion;
+    expect(resilience.getStatus().consecutiveFailures).toBe(1);
+  });
+
+  it('leaves the timeout to the call when asked to', async () => {
+    vi.useFakeTimers();
+    const resilience = new RelayerResilience({ timeouts: { encrypt: 1_000 }, retry: { retries: 0 } });
+
+    const result = resilience.run('encrypt', () => new Promise(resolve => setTimeout(() => resolve('ok'), 5_000)), { timeout: false });
+    await vi.advanceTimersByTimeAsync(5_000);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('opens the circuit at the failure threshold and fails fast while open', async () => {
+    // Only the clock: retries still sleep on real (zero-length) timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const resilience = new RelayerResilience({
+      retry: FAST_RETRY,
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 10_000 },
+    });
+    const fn = vi.fn().mockRejectedValue(outage());
+
+    await expect(resilience.run('userDecrypt', fn)).rejects.toBeInstanceOf(RelayerUnavailableError);
+    // The circuit opened on the second failure, so the last retry was not attempted
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(resilience.getStatus()).toEqual({
+      status: 'RELAYER_UNAVAILABLE',
+      circuit: 'open',
+      consecutiveFailures: 2,
+      retryAt: Date.now() + 10_000,
+    });
+
+    await expect(resilience.run('userDecrypt', fn)).rejects.toThrow(/Requests are paused/);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets one trial call through after the reset timeout', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const resilience = new RelayerResilience({
+      retry: { ...FAST_RETRY, retries: 0 },
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 5_000 },
+    });
+    await expect(resilience.run('userDecrypt', () => Promise.reject(outage()))).rejects.toThrow();
+    expect(resilience.getStatus().circuit).toBe('open');
+
+    vi.setSystemTime(Date.now() + 5_000);
+    expect(resilience.getStatus().circuit).toBe('half-open');
+
+    let finishTrial!: (value: string) => void;
+    const trial = resilience.run('userDecrypt', () => new Promise<string>(resolve => (finishTrial = resolve)));
+    // Only one trial at a time
+    await expect(resilience.run('userDecrypt', async () => 'second')).rejects.toThrow(/Requests are paused/);
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(resilience.getStatus()).toMatchObject({ status: 'AVAILABLE', circuit: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('reopens the circuit when the trial call fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const resilience = new RelayerResilience({
+      retry: FAST_RETRY,
+      circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 5_000 },
+    });
+    await expect(resilience.run('encrypt', () => Promise.reject(outage()))).rejects.toThrow();
+    expect(resilience.getStatus().circuit).toBe('open');
+
+    vi.setSystemTime(Date.now() + 5_000);
+    const fn = vi.fn().mockRejectedValue(outage());
+    await expect(resilience.run('encrypt', fn)).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(resilience.getStatus().circuit).toBe('open');
+  });
+
+  it('notifies subscribers of status changes until they unsubscribe', async () => {
+    const resilience = new RelayerResilience({
+      retry: { ...FAST_RETRY, retries: 0 },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    const statuses: RelayerStatus[] = [];
+    const unsubscribe = resilience.subscribe(status => statuses.push(status));
+    resilience.subscribe(() => {
+      throw new Error('broken listener');
+    });
+
+    await expect(resilience.run('userDecrypt', () => Promise.reject(outage()))).rejects.toThrow();
+    resilience.reset();
+    unsubscribe();
+    resilience.reset();
+
+    expect(statuses.map(status => status.status)).toEqual(['RELAYER_UNAVAILABLE', 'AVAILABLE']);
+  });
+
+  it('merges policy overrides over the defaults', () => {
+    const resilience = new RelayerResilience({ timeouts: { encrypt: 1 } });
+    resilience.setPolicy({ retry: { retries: 0 } });
+
+    expect(resilience.getPolicy()).toMatchObject({
+      timeouts: { encrypt: 1, userDecrypt: 30_000 },
+      retry: { retries: 0, baseDelayMs: 500 },
+      circuitBreaker: { failureThreshold: 5 },
+    });
+  });
+});
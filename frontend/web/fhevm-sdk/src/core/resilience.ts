@@ -0,0 +1,245 @@
+/**
+ * FHEVM Relayer Resilience - Universal SDK
+ * Timeouts, retries with backoff and a circuit breaker around every relayer call
+ */
+
+import { RelayerUnavailableError, toFhevmError } from './errors.js';
+
+export type RelayerOperation = 'encrypt' | 'userDecrypt' | 'publicDecrypt';
+
+export interface RetryPolicy {
+  // Attempts after the first one, 0 disables retries
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerPolicy {
+  // Consecutive relayer failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before one trial call is let through
+  resetTimeoutMs: number;
+}
+
+export interface ResiliencePolicy {
+  timeouts: Record<RelayerOperation, number>;
+  retry: RetryPolicy;
+  circuitBreaker: CircuitBreakerPolicy;
+}
+
+export interface ResiliencePolicyOverrides {
+  timeouts?: Partial<Record<RelayerOperation, number>>;
+  retry?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerPolicy>;
+}
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  // Encryption includes proving in WASM before the input-proof request
+  timeouts: { encrypt: 60_000, userDecrypt: 30_000, publicDecrypt: 30_000 },
+  retry: { retries: 2, baseDelayMs: 500, maxDelayMs: 5_000 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30_000 },
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * What the UI needs to show degraded mode
+ */
+export interface RelayerStatus {
+  status: 'AVAILABLE' | 'RELAYER_UNAVAILABLE';
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  // When an open circuit lets the next trial call through (ms since epoch)
+  retryAt?: number;
+}
+
+export type RelayerStatusListener = (status: RelayerStatus) => void;
+
+export interface RelayerRunOptions {
+  // false when `fn` enforces the operation's timeout itself, e.g. from the moment a worker starts the job
+  timeout?: boolean;
+}
+
+/**
+ * Runs relayer calls under one policy and tracks relayer health across them
+ */
+export class RelayerResilience {
+  private policy: ResiliencePolicy;
+  private circuit: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private listeners = new Set<RelayerStatusListener>();
+
+  // Called before each retry, e.g. to count retries
+  onRetry?: (operation: RelayerOperation, attempt: number, error: Error) => void;
+
+  constructor(policy: ResiliencePolicyOverrides = {}) {
+    this.policy = mergePolicy(DEFAULT_RESILIENCE_POLICY, policy);
+  }
+
+  getPolicy(): ResiliencePolicy {
+    return this.policy;
+  }
+
+  setPolicy(policy: ResiliencePolicyOverrides) {
+    this.policy = mergePolicy(this.policy, policy);
+  }
+
+  getStatus(): RelayerStatus {
+    const open = this.currentCircuit() === 'open';
+    return {
+      status: open ? 'RELAYER_UNAVAILABLE' : 'AVAILABLE',
+      circuit: this.currentCircuit(),
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: open ? this.openedAt + this.policy.circuitBreaker.resetTimeoutMs : undefined,
+    };
+  }
+
+  /**
+   * Listen for status changes, returns the unsubscribe function
+   */
+  subscribe(listener: RelayerStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Close the circuit, e.g. after the user switched relayer
+   */
+  reset() {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.setCircuit('closed');
+  }
+
+  /**
+   * Run `fn` with the operation's timeout, retrying relayer outages.
+   * `fn` is called again on every attempt, so it must rebuild any one-shot state.
+   */
+  async run<T>(operation: RelayerOperation, fn: () => Promise<T>, options: RelayerRunOptions = {}): Promise<T> {
+    const { retry } = this.policy;
+
+    for (let attempt = 0; ; attempt++) {
+      this.admit();
+
+      let error: Error;
+      try {
+        const result = await (options.timeout === false ? fn() : withTimeout(fn(), this.policy.timeouts[operation], operation));
+        this.recordSuccess();
+        return result;
+      } catch (err) {
+        error = toFhevmError(err);
+      }
+
+      // Only outages count against the relayer; rejections, ACL and bad handles do not
+      if (!(error instanceof RelayerUnavailableError)) {
+        this.trialInFlight = false;
+        throw error;
+      }
+
+      this.recordFailure();
+      if (attempt >= retry.retries || this.circuit === 'open') throw error;
+
+      this.onRetry?.(operation, attempt + 1, error);
+      await sleep(backoffDelay(attempt, retry));
+    }
+  }
+
+  private admit() {
+    const circuit = this.currentCircuit();
+    if (circuit === 'closed') return;
+
+    if (circuit === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      this.setCircuit('half-open');
+      return;
+    }
+
+    throw new RelayerUnavailableError('Relayer is unavailable after repeated failures. Requests are paused, please try again shortly.');
+  }
+
+  // An open circuit turns half-open once its reset timeout has passed
+  private currentCircuit(): CircuitState {
+    if (this.circuit === 'open' && Date.now() - this.openedAt >= this.policy.circuitBreaker.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.circuit;
+  }
+
+  private recordSuccess() {
+    const wasHealthy = this.circuit === 'closed' && this.consecutiveFailures === 0;
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (!wasHealthy) this.setCircuit('closed');
+  }
+
+  private recordFailure() {
+    this.consecutiveFailures++;
+    const trialFailed = this.trialInFlight;
+    this.trialInFlight = false;
+
+    if (trialFailed || this.consecutiveFailures >= this.policy.circuitBreaker.failureThreshold) {
+      this.openedAt = Date.now();
+      this.setCircuit('open');
+    } else {
+      this.emit();
+    }
+  }
+
+  private setCircuit(circuit: CircuitState) {
+    this.circuit = circuit;
+    this.emit();
+  }
+
+  private emit() {
+    const status = this.getStatus();
+    for (const listener of this.listeners) {
+      try {
+        listener(status);
+      } catch {
+        // A broken listener must not break relayer calls
+      }
+    }
+  }
+}
+
+function mergePolicy(base: ResiliencePolicy, overrides: ResiliencePolicyOverrides): ResiliencePolicy {
+  return {
+    timeouts: { ...base.timeouts, ...overrides.timeouts },
+    retry: { ...base.retry, ...overrides.retry },
+    circuitBreaker: { ...base.circuitBreaker, ...overrides.circuitBreaker },
+  };
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number, retry: RetryPolicy): number {
+  const cap = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// The relayer SDK takes no AbortSignal, so a timed-out call is abandoned rather than aborted
+function withTimeout<T>(promise: Promise<T>, ms: number, operation: RelayerOperation): Promise<T> {
+  if (!Number.isFinite(ms) || ms <= 0) return promise;
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(relayerTimeoutError(operation, ms)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * The outage reported when an operation runs past its timeout
+ */
+export function relayerTimeoutError(operation: RelayerOperation, ms: number): RelayerUnavailableError {
+  return new RelayerUnavailableError(`Relayer did not answer ${operation} within ${ms} ms.`);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { DecryptionSessionManager } from './session.js';
+
+describe('DecryptionSessionManager durationDays', () => {
+  it('accepts 1 to 365 days', () => {
+    const sessions = new DecryptionSessionManager({ durationDays: 365 });
+    expect(sessions.getDurationDays()).toBe(365);
+
+    sessions.setDurationDays(1);
+    expect(sessions.getDurationDays()).toBe(1);
+  });
+
+  it.each([0, -1, 1.5, 366, Number.NaN])('rejects %s', (durationDays) => {
+    expect(() => new DecryptionSessionManager({ durationDays })).toThrow(RangeError);
+    expect(() => new DecryptionSessionManager().setDurationDays(durationDays)).toThrow(/from 1 to 365/);
+  });
+});
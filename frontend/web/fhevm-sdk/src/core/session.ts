@@ -0,0 +1,209 @@
+/**
+ * FHEVM Decryption Sessions - Universal SDK
+ * Reuses one keypair and EIP-712 signature per (user, contract set)
+ * until it expires, so a batch of decryptions needs a single wallet prompt
+ */
+
+import { openDB, type IDBPDatabase } from 'idb';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Sessions closer than this to their expiry are renewed rather than reused
+const EXPIRY_MARGIN_SECONDS = 60;
+
+// The relayer SDK refuses user decryptions signed for longer
+const MAX_DURATION_DAYS = 365;
+
+export interface DecryptionSession {
+  chainId: number;
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+/**
+ * Storage backend for decryption sessions
+ */
+export interface DecryptionSessionStore {
+  get(key: string): Promise<DecryptionSession | undefined>;
+  put(key: string, session: DecryptionSession): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Keeps sessions for the lifetime of the page or process (the default)
+ */
+export class MemorySessionStore implements DecryptionSessionStore {
+  private sessions = new Map<string, DecryptionSession>();
+
+  async get(key: string) {
+    return this.sessions.get(key);
+  }
+
+  async put(key: string, session: DecryptionSession) {
+    this.sessions.set(key, session);
+  }
+
+  async delete(key: string) {
+    this.sessions.delete(key);
+  }
+
+  async clear() {
+    this.sessions.clear();
+  }
+}
+
+/**
+ * Persists sessions across reloads in IndexedDB. Opt-in: the decryption private key and signature are
+ * stored in clear, so script injection or access to the browser profile can decrypt the user's data
+ * until the session expires. Keep durationDays short when using it.
+ */
+export class IndexedDBSessionStore implements DecryptionSessionStore {
+  private static readonly STORE = 'sessions';
+  private db: Promise<IDBPDatabase>;
+
+  constructor(dbName = 'fhevm-sdk-decryption-sessions') {
+    this.db = openDB(dbName, 1, {
+      upgrade(db) {
+        db.createObjectStore(IndexedDBSessionStore.STORE);
+      },
+    });
+  }
+
+  async get(key: string) {
+    return (await this.db).get(IndexedDBSessionStore.STORE, key);
+  }
+
+  async put(key: string, session: DecryptionSession) {
+    await (await this.db).put(IndexedDBSessionStore.STORE, session, key);
+  }
+
+  async delete(key: string) {
+    await (await this.db).delete(IndexedDBSessionStore.STORE, key);
+  }
+
+  async clear() {
+    await (await this.db).clear(IndexedDBSessionStore.STORE);
+  }
+}
+
+export interface DecryptionSessionManagerOptions {
+  // Defaults to memory: a reload asks for a new signature. new IndexedDBSessionStore() persists sessions.
+  store?: DecryptionSessionStore;
+  // How long a signature stays valid, 1 to 365 days, defaults to 10
+  durationDays?: number;
+}
+
+export class DecryptionSessionManager {
+  private store: DecryptionSessionStore;
+  private durationDays: number;
+  // Concurrent requests for the same key share one signature prompt
+  private pending = new Map<string, Promise<DecryptionSession>>();
+
+  constructor(options: DecryptionSessionManagerOptions = {}) {
+    this.store = options.store ?? new MemorySessionStore();
+    this.durationDays = 10;
+    if (options.durationDays !== undefined) this.setDurationDays(options.durationDays);
+  }
+
+  getDurationDays(): number {
+    return this.durationDays;
+  }
+
+  setDurationDays(durationDays: number) {
+    if (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > MAX_DURATION_DAYS) {
+      throw new RangeError(`durationDays must be an integer from 1 to ${MAX_DURATION_DAYS}, got ${durationDays}`);
+    }
+    this.durationDays = durationDays;
+  }
+
+  /**
+   * Return a valid session for the signer and contracts, signing a new one if needed
+   */
+  async getSession(instance: any, signer: any, contractAddresses: string[], chainId: number): Promise<DecryptionSession> {
+    const userAddress = await signer.getAddress();
+    const key = sessionKey(chainId, userAddress, contractAddresses);
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const stored = await this.store.get(key);
+    if (stored && isSessionValid(stored)) return stored;
+
+    const request = this.createSession(instance, signer, userAddress, contractAddresses, chainId)
+      .then(async session => {
+        await this.store.put(key, session);
+        return session;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * Forget the session for a user and contract set, forcing a new signature next time
+   */
+  async revoke(userAddress: string, contractAddresses: string[], chainId: number) {
+    await this.store.delete(sessionKey(chainId, userAddress, contractAddresses));
+  }
+
+  /**
+   * Forget every stored session
+   */
+  async clear() {
+    await this.store.clear();
+  }
+
+  private async createSession(
+    instance: any,
+    signer: any,
+    userAddress: string,
+    contractAddresses: string[],
+    chainId: number
+  ): Promise<DecryptionSession> {
+    const keypair = instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const durationDays = this.durationDays;
+
+    const eip712 = instance.createEIP712(
+      keypair.publicKey,
+      contractAddresses,
+      startTimestamp.toString(),
+      durationDays.toString()
+    );
+
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    return {
+      chainId,
+      userAddress,
+      contractAddresses,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace("0x", ""),
+      startTimestamp,
+      durationDays,
+    };
+  }
+}
+
+export function isSessionValid(session: DecryptionSession, now = Math.floor(Date.now() / 1000)): boolean {
+  const expiresAt = session.startTimestamp + session.durationDays * SECONDS_PER_DAY;
+  return now + EXPIRY_MARGIN_SECONDS < expiresAt;
+}
+
+function sessionKey(chainId: number, userAddress: string, contractAddresses: string[]): string {
+  const contracts = contractAddresses.map(address => address.toLowerCase()).sort().join(',');
+  return `${chainId}:${userAddress.toLowerCase()}:${contracts}`;
+}
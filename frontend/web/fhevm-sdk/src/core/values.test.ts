@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { abiEncodeClearValues, clearValueToNumber, toClearValue } from './values.js';
+import { FhevmClient } from './client.js';
+
+const SEPOLIA = 11155111;
+
+// hash (21) | index (1) | chain id (8) | FHE type (1) | version (1)
+function makeHandle(typeId: number, chainId = SEPOLIA, hashByte = 'ab'): string {
+  return `0x${hashByte.repeat(21)}00${chainId.toString(16).padStart(16, '0')}${typeId.toString(16).padStart(2, '0')}00`;
+}
+
+const EBOOL = makeHandle(0);
+const EUINT32 = makeHandle(4);
+const EADDRESS = makeHandle(7);
+const ADDRESS = '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478';
+
+describe('toClearValue', () => {
+  it('types values by the handle', () => {
+    expect(toClearValue(EUINT32, '120')).toBe(120n);
+    expect(toClearValue(EUINT32, 120)).toBe(120n);
+    expect(toClearValue(EBOOL, 1n)).toBe(true);
+    expect(toClearValue(EBOOL, false)).toBe(false);
+    expect(toClearValue(EADDRESS, BigInt(ADDRESS))).toBe(ADDRESS);
+    expect(toClearValue(EADDRESS, ADDRESS.toLowerCase())).toBe(ADDRESS);
+  });
+
+  it('keeps the relayer shape for handles it cannot parse', () => {
+    expect(toClearValue('0x1234', true)).toBe(true);
+    expect(toClearValue('0x1234', ADDRESS.toLowerCase())).toBe(ADDRESS);
+    expect(toClearValue('0x1234', '7')).toBe(7n);
+  });
+
+  it('throws when the relayer returned nothing for a handle', () => {
+    expect(() => toClearValue(EUINT32, undefined)).toThrow(/No decrypted value/);
+  });
+});
+
+describe('abiEncodeClearValues', () => {
+  it('encodes each value with its handle type, in handle order', () => {
+    const encoded = abiEncodeClearValues([EUINT32, EBOOL, EADDRESS], {
+      [EUINT32]: 120n,
+      [EBOOL]: true,
+      [EADDRESS.toLowerCase()]: ADDRESS,
+    });
+
+    const decoded = ethers.AbiCoder.defaultAbiCoder().decode(['uint32', 'bool', 'address'], encoded);
+    expect([...decoded]).toEqual([120n, true, ADDRESS]);
+  });
+
+  it('rejects handles without a known FHE type', () => {
+    expect(() => abiEncodeClearValues([makeHandle(99)], {})).toThrow(expect.objectContaining({ code: 'INVALID_HANDLE' }));
+  });
+});
+
+describe('clearValueToNumber', () => {
+  it('converts small values and refuses unsafe ones', () => {
+    expect(clearValueToNumber(42n)).toBe(42);
+    expect(clearValueToNumber(true)).toBe(1);
+    expect(() => clearValueToNumber(2n ** 60n)).toThrow(RangeError);
+    expect(() => clearValueToNumber(ADDRESS)).toThrow(TypeError);
+  });
+});
+
+describe('FhevmClient.publicDecryptV09', () => {
+  const proof = '0x' + '11'.repeat(65);
+
+  it('returns typed values and re-encodes them when the relayer leaves that out', async () => {
+    const publicDecrypt = vi.fn(async () => ({ clearValues: { [EUINT32]: 120n, [EBOOL]: 1n }, decryptionProof: proof }));
+    const client = new FhevmClient({ instance: { publicDecrypt } });
+
+    const result = await client.publicDecryptV09([EUINT32, EBOOL]);
+
+    expect(result.clearValues).toEqual({ [EUINT32]: 120n, [EBOOL]: true });
+    expect(result.decryptionProof).toBe(proof);
+    expect(result.abiEncodedClearValues).toBe(ethers.AbiCoder.defaultAbiCoder().encode(['uint32', 'bool'], [120n, true]));
+  });
+
+  it('fails with PROOF_INVALID when the relayer sends no KMS proof', async () => {
+    const client = new FhevmClient({ instance: { publicDecrypt: async () => ({ clearValues: { [EUINT32]: 1n } }) } });
+    await expect(client.publicDecryptV09([EUINT32])).rejects.toMatchObject({ code: 'PROOF_INVALID' });
+  });
+
+  it('rejects handles of another chain before calling the relayer', async () => {
+    const publicDecrypt = vi.fn();
+    const client = new FhevmClient({ instance: { publicDecrypt } });
+
+    await expect(client.publicDecryptV09([makeHandle(4, 1)])).rejects.toMatchObject({ code: 'INVALID_HANDLE' });
+    expect(publicDecrypt).not.toHaveBeenCalled();
+  });
+});
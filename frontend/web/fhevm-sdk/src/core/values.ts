@@ -0,0 +1,92 @@
+/**
+ * FHEVM Clear Values - Universal SDK
+ * Decrypted values typed by the FHE type of their handle
+ */
+
+import { ethers } from 'ethers';
+import { getHandleFheType } from './handles.js';
+import { InvalidHandleError } from './errors.js';
+
+/**
+ * bigint for euintX, boolean for ebool, checksummed address for eaddress
+ */
+export type ClearValue = bigint | boolean | string;
+
+/**
+ * Public decryption result, ready for FHE.checkSignatures on-chain
+ */
+export interface PublicDecryptionResult {
+  clearValues: Record<string, ClearValue>;
+  // abi.encode of the clear values, in handle order
+  abiEncodedClearValues: string;
+  // KMS signatures over the handles and abiEncodedClearValues
+  decryptionProof: string;
+}
+
+/**
+ * Convert a raw relayer or mock result into the type matching its handle
+ */
+export function toClearValue(handle: string, raw: unknown): ClearValue {
+  if (raw === undefined || raw === null) {
+    throw new Error(`No decrypted value returned for handle ${handle}`);
+  }
+
+  switch (getHandleFheType(handle)?.name) {
+    case 'ebool':
+      return typeof raw === 'boolean' ? raw : BigInt(raw as any) !== 0n;
+    case 'eaddress':
+      return ethers.getAddress(typeof raw === 'string' ? raw : ethers.toBeHex(BigInt(raw as any), 20));
+    case undefined:
+      // Unknown handle layout: keep the shape the relayer returned
+      if (typeof raw === 'boolean') return raw;
+      if (typeof raw === 'string' && ethers.isAddress(raw)) return ethers.getAddress(raw);
+      return BigInt(raw as any);
+    default:
+      return BigInt(raw as any);
+  }
+}
+
+/**
+ * ABI-encode clear values in handle order, each with the Solidity type of its handle
+ * (bool, uint8 ... uint256, address)
+ */
+export function abiEncodeClearValues(handles: string[], clearValues: Record<string, ClearValue>): string {
+  const types: string[] = [];
+  const values: unknown[] = [];
+
+  for (const handle of handles) {
+    const type = getHandleFheType(handle);
+    if (!type) {
+      throw new InvalidHandleError(`Invalid ciphertext handle for decryption: ${handle}`, handle);
+    }
+    types.push(type.solidityType);
+    values.push(toClearValue(handle, clearValues[handle] ?? clearValues[handle.toLowerCase()]));
+  }
+
+  return ethers.AbiCoder.defaultAbiCoder().encode(types, values);
+}
+
+/**
+ * Compatibility helper for callers that expect the old number results (euint32 and smaller)
+ */
+export function clearValueToNumber(value: ClearValue): number {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') {
+    throw new TypeError(`Cannot convert address ${value} to a number`);
+  }
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new RangeError(`Value ${value} exceeds Number.MAX_SAFE_INTEGER; keep it as a bigint`);
+  }
+  return Number(value);
+}
+
+/**
+ * Compatibility helper converting a batch result to the old Record<string, number> shape
+ */
+export function clearValuesToNumbers(values: Record<string, ClearValue>): Record<string, number> {
+  const numbers: Record<string, number> = {};
+  for (const [handle, value] of Object.entries(values)) {
+    numbers[handle] = clearValueToNumber(value);
+  }
+  return numbers;
+}
@@ -0,0 +1,161 @@
+/**
+ * FHEVM Wallet Discovery - Universal SDK
+ * EIP-6963 multi-wallet discovery; the selected wallet is the EIP-1193 provider the SDK talks to
+ */
+
+import type { Eip1193Provider } from './provider.js';
+
+export interface WalletInfo {
+  // Per page load, from the announcement
+  uuid: string;
+  name: string;
+  // Data URI of the wallet's icon
+  icon: string;
+  // Stable id such as 'io.metamask', used to remember the choice
+  rdns: string;
+}
+
+export interface WalletProviderDetail {
+  info: WalletInfo;
+  provider: Eip1193Provider;
+}
+
+// window.ethereum when no announced wallet owns it (wallets without EIP-6963)
+export const INJECTED_WALLET_RDNS = 'injected';
+
+const STORAGE_KEY = 'fhevm-sdk:wallet';
+
+let started = false;
+let wallets: WalletProviderDetail[] = [];
+let selected: WalletProviderDetail | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Wallets announced so far, plus window.ethereum when it is not one of them
+ */
+export function getWalletProviders(): WalletProviderDetail[] {
+  startWalletDiscovery();
+  const injected = getInjectedWallet();
+  return injected ? [...wallets, injected] : wallets;
+}
+
+export function getSelectedWallet(): WalletProviderDetail | null {
+  return selected;
+}
+
+/**
+ * Select a wallet by uuid or rdns and remember it for the next visit; null forgets the choice
+ */
+export function selectWallet(id: string | null): WalletProviderDetail | null {
+  if (id === null) {
+    setSelected(null);
+    writeRemembered(null);
+    return null;
+  }
+
+  const wallet = getWalletProviders().find(candidate => candidate.info.uuid === id || candidate.info.rdns === id);
+  if (!wallet) throw new Error(`Wallet "${id}" was not found. Is the extension installed and enabled?`);
+
+  setSelected(wallet);
+  writeRemembered(wallet.info.rdns);
+  return wallet;
+}
+
+/**
+ * The EIP-1193 provider for SDK calls: the selected wallet, else window.ethereum
+ */
+export function getWalletProvider(): Eip1193Provider | undefined {
+  if (selected) return selected.provider;
+  return typeof window !== 'undefined' ? window.ethereum : undefined;
+}
+
+/**
+ * Called when a wallet is announced or the selection changes. Starts discovery.
+ */
+export function onWalletsChange(listener: () => void): () => void {
+  listeners.add(listener);
+  startWalletDiscovery();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Listen for EIP-6963 announcements and ask installed wallets to announce themselves (idempotent)
+ */
+export function startWalletDiscovery() {
+  if (started || typeof window === 'undefined' || typeof window.addEventListener !== 'function') return;
+  started = true;
+
+  window.addEventListener('eip6963:announceProvider', ((event: CustomEvent<WalletProviderDetail>) => {
+    const detail = event.detail;
+    if (!detail?.info?.uuid || !detail.provider) return;
+
+    // A wallet re-announces on every request; keep one entry per uuid
+    wallets = [...wallets.filter(wallet => wallet.info.uuid !== detail.info.uuid), detail];
+    if (!selected && detail.info.rdns === readRemembered()) {
+      setSelected(detail);
+    } else {
+      notify();
+    }
+  }) as EventListener);
+
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+
+  // Wallets without EIP-6963 only show up as window.ethereum
+  if (!selected && readRemembered() === INJECTED_WALLET_RDNS) {
+    const injected = getInjectedWallet();
+    if (injected) selected = injected;
+  }
+}
+
+function getInjectedWallet(): WalletProviderDetail | null {
+  const ethereum = typeof window !== 'undefined' ? window.ethereum : undefined;
+  if (!ethereum || wallets.some(wallet => wallet.provider === ethereum)) return null;
+
+  return {
+    info: { uuid: INJECTED_WALLET_RDNS, name: injectedWalletName(ethereum), icon: '', rdns: INJECTED_WALLET_RDNS },
+    provider: ethereum,
+  };
+}
+
+function injectedWalletName(ethereum: Record<string, any>): string {
+  if (ethereum.isOkxWallet) return 'OKX Wallet';
+  if (ethereum.isTrust) return 'Trust Wallet';
+  if (ethereum.isCoinbaseWallet) return 'Coinbase Wallet';
+  if (ethereum.isMetaMask) return 'MetaMask';
+  return 'Browser Wallet';
+}
+
+function setSelected(wallet: WalletProviderDetail | null) {
+  selected = wallet;
+  notify();
+}
+
+function notify() {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch {
+      // A broken listener must not stop the others
+    }
+  }
+}
+
+// localStorage throws in some privacy modes and does not exist in Node.js
+function readRemembered(): string | null {
+  try {
+    return globalThis.localStorage?.getItem(STORAGE_KEY) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function writeRemembered(rdns: string | null) {
+  try {
+    if (rdns) globalThis.localStorage?.setItem(STORAGE_KEY, rdns);
+    else globalThis.localStorage?.removeItem(STORAGE_KEY);
+  } catch {
+    // Remembering the choice is best effort
+  }
+}
@@ -0,0 +1,178 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { silentLogger } from './logger.js';
+import type { WasmLoadProgress } from './wasm.js';
+
+const initSDK = vi.fn(async () => {});
+vi.mock('@zama-fhe/relayer-sdk/bundle', () => ({ initSDK }));
+
+const WASM = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0]);
+
+// loadRelayerSdk caches the module per page, so every test starts from a fresh copy
+async function loadWasmModule() {
+  vi.resetModules();
+  return import('./wasm.js');
+}
+
+function stubFetch(contentType = 'application/wasm') {
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    const headers = { 'content-type': contentType, 'content-length': String(WASM.byteLength) };
+    return new Response(init?.method === 'HEAD' ? null : WASM, { status: 200, headers });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+beforeEach(() => {
+  initSDK.mockClear();
+  // As if the page had loaded relayer-sdk-js.js itself
+  vi.stubGlobal('relayerSDK', { initSDK });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('resolveWasmUrls', () => {
+  it('leaves both URLs to the relayer SDK without a config', async () => {
+    const { resolveWasmUrls } = await loadWasmModule();
+    expect(resolveWasmUrls()).toEqual({ tfhe: undefined, kms: undefined });
+  });
+
+  it('joins baseUrl and the file names, with or without a trailing slash', async () => {
+    const { resolveWasmUrls } = await loadWasmModule();
+    expect(resolveWasmUrls({ baseUrl: '/app/fhevm' })).toEqual({
+      tfhe: '/app/fhevm/tfhe_bg.wasm',
+      kms: '/app/fhevm/kms_lib_bg.wasm',
+    });
+    expect(resolveWasmUrls({ baseUrl: '' }).tfhe).toBe('/tfhe_bg.wasm');
+  });
+
+  it('prefers per-file URLs over baseUrl', async () => {
+    const { resolveWasmUrls } = await loadWasmModule();
+    expect(resolveWasmUrls({ baseUrl: '/fhevm/', kmsUrl: 'https://cdn.example/kms.wasm' })).toEqual({
+      tfhe: '/fhevm/tfhe_bg.wasm',
+      kms: 'https://cdn.example/kms.wasm',
+    });
+  });
+});
+
+describe('loadRelayerSdk', () => {
+  it('checks, downloads and hands both assets to initSDK, reporting progress', async () => {
+    const fetchMock = stubFetch();
+    const { loadRelayerSdk } = await loadWasmModule();
+    const progress: WasmLoadProgress[] = [];
+
+    await loadRelayerSdk(silentLogger, { baseUrl: '/fhevm/', threads: 2, onProgress: p => progress.push(p) });
+
+    expect(fetchMock.mock.calls.filter(([, init]) => init?.method === 'HEAD')).toHaveLength(2);
+    expect(initSDK).toHaveBeenCalledTimes(1);
+    const params = (initSDK.mock.calls[0] as any[])[0];
+    expect(new Uint8Array(params.tfheParams)).toEqual(WASM);
+    expect(new Uint8Array(params.kmsParams)).toEqual(WASM);
+    expect(params.thread).toBe(2);
+
+    expect(progress[0]).toEqual({ stage: 'checking' });
+    expect(progress).toContainEqual({ stage: 'downloading', asset: 'tfhe', loaded: WASM.byteLength, total: WASM.byteLength });
+    expect(progress.at(-1)).toEqual({ stage: 'ready' });
+  });
+
+  it('initializes once and reports ready to later callers', async () => {
+    stubFetch();
+    const { loadRelayerSdk } = await loadWasmModule();
+    await loadRelayerSdk(silentLogger, { baseUrl: '/fhevm/' });
+
+    const onProgress = vi.fn();
+    await loadRelayerSdk(silentLogger, { baseUrl: '/fhevm/', onProgress });
+    await Promise.resolve();
+
+    expect(initSDK).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith({ stage: 'ready' });
+  });
+
+  it('fails with WASM_LOAD_FAILED when the dev server answers with index.html', async () => {
+    stubFetch('text/html');
+    const { loadRelayerSdk } = await loadWasmModule();
+
+    await expect(loadRelayerSdk(silentLogger, { baseUrl: '/wrong/' })).rejects.toMatchObject({
+      code: 'WASM_LOAD_FAILED',
+      message: expect.stringContaining('HTML page'),
+    });
+    expect(initSDK).not.toHaveBeenCalled();
+  });
+
+  it('fails on a missing asset and lets the next call retry', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+    const { loadRelayerSdk } = await loadWasmModule();
+    await expect(loadRelayerSdk(silentLogger, { baseUrl: '/fhevm/' })).rejects.toThrow(/missing \(HTTP 404\)/);
+
+    stubFetch();
+    await expect(loadRelayerSdk(silentLogger, { baseUrl: '/fhevm/' })).resolves.toBeDefined();
+  });
+
+  it('refuses a second load with another asset config instead of ignoring it', async () => {
+    stubFetch();
+    const { loadRelayerSdk } = await loadWasmModule();
+    await loadRelayerSdk(silentLogger, { baseUrl: '/fhevm/' });
+
+    await expect(loadRelayerSdk(silentLogger, { baseUrl: '/other/' })).rejects.toMatchObject({
+      code: 'WASM_LOAD_FAILED',
+      message: expect.stringContaining('cannot be reloaded with sdk /other/relayer-sdk-js.js'),
+    });
+    await expect(loadRelayerSdk(silentLogger, { baseUrl: '/fhevm/', threads: 4 })).rejects.toThrow(/threads 4/);
+    // The same assets under another spelling are the same config
+    await expect(loadRelayerSdk(silentLogger, { baseUrl: '/fhevm' })).resolves.toBeDefined();
+    expect(initSDK).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts another config once a failed load was given up', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+    const { loadRelayerSdk } = await loadWasmModule();
+    await expect(loadRelayerSdk(silentLogger, { baseUrl: '/wrong/' })).rejects.toThrow();
+
+    stubFetch();
+    await expect(loadRelayerSdk(silentLogger, { baseUrl: '/fhevm/' })).resolves.toBeDefined();
+  });
+});
+
+describe('relayer SDK bundle', () => {
+  it('evaluates the self-hosted UMD build to define the relayerSDK global', async () => {
+    vi.stubGlobal('relayerSDK', undefined);
+    const dir = mkdtempSync(join(tmpdir(), 'fhevm-sdk-'));
+    const file = join(dir, 'relayer-sdk-js.js');
+    // What the UMD build does when evaluated as a module
+    writeFileSync(file, 'globalThis.relayerSDK = { initSDK: () => Promise.resolve() };\n');
+    const { loadRelayerSdk } = await loadWasmModule();
+
+    try {
+      await loadRelayerSdk(silentLogger, { sdkUrl: pathToFileURL(file).href });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect((globalThis as any).relayerSDK).toBeDefined();
+    expect(initSDK).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks where the bundle is served when it cannot find it', async () => {
+    vi.stubGlobal('relayerSDK', undefined);
+    const { loadRelayerSdk } = await loadWasmModule();
+
+    await expect(loadRelayerSdk(silentLogger)).rejects.toMatchObject({
+      code: 'WASM_LOAD_FAILED',
+      message: expect.stringContaining('Set wasm.baseUrl or wasm.sdkUrl'),
+    });
+  });
+
+  it('fails with WASM_LOAD_FAILED when the bundle URL does not load', async () => {
+    vi.stubGlobal('relayerSDK', undefined);
+    const { loadRelayerSdk } = await loadWasmModule();
+
+    await expect(loadRelayerSdk(silentLogger, { sdkUrl: pathToFileURL(join(tmpdir(), 'missing-relayer-sdk.js')).href }))
+      .rejects.toMatchObject({ code: 'WASM_LOAD_FAILED', message: expect.stringContaining('Failed to load the relayer SDK') });
+    expect(initSDK).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * FHEVM WASM Loading - Universal SDK
+ * Loads the relayer SDK bundle and its WASM assets from a configurable
+ * location, so apps can self-host everything (no CDN, any sub-path)
+ */
+
+import { WasmLoadError } from './errors.js';
+import type { FhevmLogger } from './logger.js';
+
+export const TFHE_WASM_FILE = 'tfhe_bg.wasm';
+export const KMS_WASM_FILE = 'kms_lib_bg.wasm';
+// Self-hosted copy of @zama-fhe/relayer-sdk/bundle/relayer-sdk-js.umd.cjs (renamed: servers send .cjs with a non-JS MIME type)
+export const RELAYER_SDK_FILE = 'relayer-sdk-js.js';
+
+export type WasmAsset = 'tfhe' | 'kms';
+
+export interface WasmLoadProgress {
+  stage: 'checking' | 'downloading' | 'initializing' | 'ready';
+  asset?: WasmAsset;
+  // Bytes received so far and Content-Length, when the server sends it
+  loaded?: number;
+  total?: number;
+}
+
+export interface FhevmWasmConfig {
+  // Directory serving tfhe_bg.wasm and kms_lib_bg.wasm, e.g. `${import.meta.env.BASE_URL}fhevm/`.
+  // When unset the relayer SDK resolves the files next to its own module (your bundler copies them).
+  baseUrl?: string;
+  // Full URLs for each file, override baseUrl
+  tfheUrl?: string;
+  kmsUrl?: string;
+  // relayer-sdk-js.js, defaults to baseUrl + relayer-sdk-js.js. Not needed when the page already defines window.relayerSDK.
+  sdkUrl?: string;
+  // HEAD-check both assets before downloading anything, defaults to true
+  verifyAssets?: boolean;
+  // Worker threads for TFHE, defaults to navigator.hardwareConcurrency (needs COOP/COEP headers)
+  threads?: number;
+  onProgress?: (progress: WasmLoadProgress) => void;
+}
+
+type RelayerSdkModule = typeof import('@zama-fhe/relayer-sdk/bundle');
+
+// WASM is initialized once per page; later clients reuse it, with the asset config it was loaded with
+let sdkPromise: Promise<RelayerSdkModule> | null = null;
+let loadedConfigKey: string | null = null;
+
+/**
+ * Resolve the URL of each WASM asset, or undefined to let the relayer SDK pick
+ */
+export function resolveWasmUrls(config: FhevmWasmConfig = {}): Partial<Record<WasmAsset, string>> {
+  const base = config.baseUrl === undefined ? undefined : withTrailingSlash(config.baseUrl);
+  return {
+    tfhe: config.tfheUrl ?? (base !== undefined ? base + TFHE_WASM_FILE : undefined),
+    kms: config.kmsUrl ?? (base !== undefined ? base + KMS_WASM_FILE : undefined),
+  };
+}
+
+/**
+ * Import the relayer SDK bundle and initialize its WASM modules.
+ * Returns the module so the caller can create instances from it.
+ * The WASM modules initialize once per page: a later call with other asset URLs or threads throws WasmLoadError.
+ */
+export function loadRelayerSdk(logger: FhevmLogger, config: FhevmWasmConfig = {}): Promise<RelayerSdkModule> {
+  const configKey = wasmConfigKey(config);
+
+  if (!sdkPromise) {
+    loadedConfigKey = configKey;
+    sdkPromise = initializeRelayerSdk(logger, config).catch(err => {
+      sdkPromise = null;
+      loadedConfigKey = null;
+      throw err;
+    });
+  } else if (configKey !== loadedConfigKey) {
+    return Promise.reject(new WasmLoadError(
+      `The relayer SDK is already loaded with ${loadedConfigKey} and cannot be reloaded with ${configKey} in this page. ` +
+        'Give every client the same wasm config.'
+    ));
+  } else {
+    sdkPromise.then(() => reportProgress(config, { stage: 'ready' }), () => {});
+  }
+  return sdkPromise;
+}
+
+async function initializeRelayerSdk(logger: FhevmLogger, config: FhevmWasmConfig): Promise<RelayerSdkModule> {
+  const report = (progress: WasmLoadProgress) => reportProgress(config, progress);
+
+  // '/bundle' re-exports the window.relayerSDK global, which the self-hosted UMD build defines
+  await defineRelayerSdkGlobal(config);
+  let sdk: RelayerSdkModule;
+  try {
+    sdk = await import('@zama-fhe/relayer-sdk/bundle');
+  } catch (err) {
+    throw new WasmLoadError('Failed to import @zama-fhe/relayer-sdk/bundle. Is the package installed and bundled?', undefined, err);
+  }
+
+  const urls = resolveWasmUrls(config);
+  const assets = (Object.keys(urls) as WasmAsset[]).filter(asset => urls[asset] !== undefined);
+
+  if (config.verifyAssets !== false && assets.length > 0) {
+    report({ stage: 'checking' });
+    await Promise.all(assets.map(asset => checkAsset(urls[asset]!)));
+  }
+
+  // Download ourselves to report progress, then hand the bytes to the SDK
+  const params: Partial<Record<WasmAsset, ArrayBuffer>> = {};
+  for (const asset of assets) {
+    params[asset] = await downloadAsset(asset, urls[asset]!, report);
+  }
+
+  report({ stage: 'initializing' });
+  try {
+    await sdk.initSDK({ tfheParams: params.tfhe, kmsParams: params.kms, thread: config.threads });
+  } catch (err) {
+    throw new WasmLoadError('Failed to initialize the FHEVM WASM modules.', undefined, err);
+  }
+
+  logger.info(`✅ FHEVM SDK initialized${assets.length > 0 ? ` with WASM from ${urls.tfhe}` : ''}`);
+  report({ stage: 'ready' });
+  return sdk;
+}
+
+/**
+ * Evaluate the self-hosted UMD build unless the page already did. As a module it still sets globalThis.relayerSDK,
+ * so this works in pages and module workers alike.
+ */
+async function defineRelayerSdkGlobal(config: FhevmWasmConfig) {
+  if ((globalThis as any).relayerSDK) return;
+
+  const url = resolveSdkUrl(config);
+  if (url === undefined) {
+    throw new WasmLoadError(
+      `Set wasm.baseUrl or wasm.sdkUrl to where ${RELAYER_SDK_FILE} is served (copy @zama-fhe/relayer-sdk/bundle/relayer-sdk-js.umd.cjs).`
+    );
+  }
+
+  try {
+    await import(/* @vite-ignore */ /* webpackIgnore: true */ url);
+  } catch (err) {
+    throw new WasmLoadError(`Failed to load the relayer SDK from ${url}.`, url, err);
+  }
+  if (!(globalThis as any).relayerSDK) {
+    throw new WasmLoadError(`${url} did not define the relayerSDK global. Serve relayer-sdk-js.umd.cjs from the relayer SDK bundle there.`, url);
+  }
+}
+
+function resolveSdkUrl(config: FhevmWasmConfig): string | undefined {
+  return config.sdkUrl ?? (config.baseUrl !== undefined ? withTrailingSlash(config.baseUrl) + RELAYER_SDK_FILE : undefined);
+}
+
+// What decides how the page's single WASM instance is set up
+function wasmConfigKey(config: FhevmWasmConfig): string {
+  const urls = resolveWasmUrls(config);
+  return `sdk ${resolveSdkUrl(config) ?? 'window.relayerSDK'}, tfhe ${urls.tfhe ?? 'default'}, kms ${urls.kms ?? 'default'}, ` +
+    `threads ${config.threads ?? 'default'}`;
+}
+
+async function checkAsset(url: string) {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'HEAD' });
+  } catch (err) {
+    throw new WasmLoadError(`WASM asset ${url} is unreachable.`, url, err);
+  }
+  if (!response.ok) {
+    throw new WasmLoadError(`WASM asset ${url} is missing (HTTP ${response.status}). Copy it from @zama-fhe/relayer-sdk/lib.`, url);
+  }
+
+  // Dev servers answer unknown paths with index.html
+  const type = response.headers.get('content-type') ?? '';
+  if (type.includes('text/html')) {
+    throw new WasmLoadError(`WASM asset ${url} resolves to an HTML page. Check the base URL.`, url);
+  }
+}
+
+async function downloadAsset(
+  asset: WasmAsset,
+  url: string,
+  report: (progress: WasmLoadProgress) => void
+): Promise<ArrayBuffer> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new WasmLoadError(`Failed to download WASM asset ${url}.`, url, err);
+  }
+  if (!response.ok) {
+    throw new WasmLoadError(`Failed to download WASM asset ${url} (HTTP ${response.status}).`, url);
+  }
+
+  const total = Number(response.headers.get('content-length')) || undefined;
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    report({ stage: 'downloading', asset, loaded: buffer.byteLength, total: buffer.byteLength });
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  report({ stage: 'downloading', asset, loaded, total });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    report({ stage: 'downloading', asset, loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
+
+function reportProgress(config: FhevmWasmConfig, progress: WasmLoadProgress) {
+  try {
+    config.onProgress?.(progress);
+  } catch {
+    // Progress UI must not break loading
+  }
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
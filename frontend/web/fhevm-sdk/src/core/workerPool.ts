@@ -0,0 +1,318 @@
+/**
+ * FHEVM Encryption Worker Pool - Universal SDK
+ * Runs TFHE encryption and ZK proof generation in dedicated Web Workers,
+ * keeping the UI thread responsive
+ */
+
+import { resolveNetwork, type FhevmNetworkConfig, type FhevmNetworkName } from './networks.js';
+import type { EncryptedInputEntry, EncryptionProgress, EncryptOptions, RawEncryptResult } from './input.js';
+import type { FhevmWasmConfig, WasmLoadProgress } from './wasm.js';
+import { WasmLoadError } from './errors.js';
+
+export interface EncryptionWorkerPoolOptions {
+  // Preset name or full network profile, defaults to 'sepolia'
+  network?: FhevmNetworkName | FhevmNetworkConfig;
+  // JSON-RPC endpoint the workers read the host contracts from, defaults to the network's rpcUrl
+  rpcUrl?: string;
+  // Same WASM settings as the main thread; onProgress stays on the main thread
+  wasm?: FhevmWasmConfig;
+  // Workers running in parallel, defaults to 1 (each one loads its own WASM)
+  size?: number;
+  // Spawns encryptWorker. Spelled out in your code, where the bundler sees the URL; it differs between layouts:
+  // () => new Worker(new URL('@fhevm-sdk/dist/core/encryptWorker.js', import.meta.url), { type: 'module' })
+  // () => new Worker(new URL('../fhevm-sdk/src/core/encryptWorker.ts', import.meta.url), { type: 'module' })  (from source)
+  createWorker: () => Worker;
+}
+
+// Messages between the pool and encryptWorker.ts
+export type WorkerRequest =
+  | { type: 'init'; network: FhevmNetworkConfig; rpcUrl: string; wasm: Omit<FhevmWasmConfig, 'onProgress'> }
+  | { type: 'encrypt'; id: number; contractAddress: string; userAddress: string; entries: EncryptedInputEntry[] };
+
+export interface SerializedWorkerError {
+  name: string;
+  message: string;
+  // Relayer SDK cause ({ code, status }), kept for error classification
+  cause?: { code?: string; status?: number };
+}
+
+export type WorkerResponse =
+  | { type: 'loading'; progress: WasmLoadProgress }
+  | { type: 'ready' }
+  | { type: 'progress'; id: number; stage: EncryptionProgress['stage'] }
+  | { type: 'result'; id: number; result: RawEncryptResult }
+  | { type: 'error'; id?: number; error: SerializedWorkerError };
+
+interface EncryptJob {
+  id: number;
+  contractAddress: string;
+  userAddress: string;
+  entries: EncryptedInputEntry[];
+  options: EncryptOptions;
+  resolve: (result: RawEncryptResult) => void;
+  reject: (error: unknown) => void;
+  removeAbortListener: () => void;
+  settled: boolean;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  ready: Promise<void>;
+  job: EncryptJob | null;
+}
+
+export class EncryptionWorkerPool {
+  private options: EncryptionWorkerPoolOptions;
+  private network: FhevmNetworkConfig;
+  private rpcUrl: string;
+  private slots: (WorkerSlot | null)[];
+  private queue: EncryptJob[] = [];
+  private nextId = 1;
+  private terminated = false;
+
+  constructor(options: EncryptionWorkerPoolOptions) {
+    if (typeof options?.createWorker !== 'function') {
+      throw new Error(
+        'Encryption workers need createWorker(), e.g. () => new Worker(new URL(\'@fhevm-sdk/dist/core/encryptWorker.js\', import.meta.url), { type: \'module\' }).'
+      );
+    }
+    this.options = options;
+    this.network = resolveNetwork(options.network);
+
+    const rpcUrl = options.rpcUrl || this.network.rpcUrl;
+    if (!rpcUrl) throw new Error(`Encryption workers need an rpcUrl for network "${this.network.name}".`);
+    this.rpcUrl = rpcUrl;
+
+    // Workers start lazily, on the first job that needs them
+    this.slots = new Array(Math.max(1, options.size ?? 1)).fill(null);
+  }
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Jobs waiting for a free worker
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Same contract as encrypting on the main thread; resolves with the raw relayer SDK output
+   */
+  encrypt(
+    contractAddress: string,
+    userAddress: string,
+    entries: EncryptedInputEntry[],
+    options: EncryptOptions = {}
+  ): Promise<RawEncryptResult> {
+    if (this.terminated) return Promise.reject(new Error('Encryption worker pool was terminated.'));
+    if (options.signal?.aborted) return Promise.reject(abortError());
+
+    return new Promise<RawEncryptResult>((resolve, reject) => {
+      const job: EncryptJob = {
+        id: this.nextId++,
+        contractAddress,
+        userAddress,
+        entries,
+        options,
+        resolve,
+        reject,
+        removeAbortListener: () => {},
+        settled: false,
+      };
+
+      if (options.signal) {
+        const onAbort = () => this.cancel(job);
+        options.signal.addEventListener('abort', onAbort, { once: true });
+        job.removeAbortListener = () => options.signal!.removeEventListener('abort', onAbort);
+      }
+
+      this.queue.push(job);
+      this.report(job, { stage: 'queued', position: this.queue.length - 1 });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop every worker and reject queued and running jobs
+   */
+  terminate() {
+    this.terminated = true;
+    const error = new Error('Encryption worker pool was terminated.');
+
+    for (const job of this.queue.splice(0)) this.settle(job, error);
+    this.slots.forEach((slot, index) => {
+      if (!slot) return;
+      slot.worker.terminate();
+      if (slot.job) this.settle(slot.job, error);
+      this.slots[index] = null;
+    });
+  }
+
+  private dispatch() {
+    for (let index = 0; index < this.slots.length && this.queue.length > 0; index++) {
+      const slot = this.slots[index] ?? this.spawn(index);
+      if (slot.job) continue;
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      this.queue.forEach((queued, position) => this.report(queued, { stage: 'queued', position }));
+
+      slot.ready.then(
+        () => {
+          if (slot.job !== job) return;
+          const request: WorkerRequest = {
+            type: 'encrypt',
+            id: job.id,
+            contractAddress: job.contractAddress,
+            userAddress: job.userAddress,
+            entries: job.entries,
+          };
+          slot.worker.postMessage(request);
+        },
+        error => {
+          // A worker that cannot load WASM is dropped; the next job spawns a fresh one
+          this.discard(index, slot);
+          this.settle(job, error);
+          this.dispatch();
+        }
+      );
+    }
+  }
+
+  private spawn(index: number): WorkerSlot {
+    const worker = this.options.createWorker();
+
+    let markReady!: () => void;
+    let markFailed!: (error: unknown) => void;
+    const ready = new Promise<void>((resolve, reject) => {
+      markReady = resolve;
+      markFailed = reject;
+    });
+    // Rejections are handled per job in dispatch()
+    ready.catch(() => {});
+
+    const slot: WorkerSlot = { worker, ready, job: null };
+    this.slots[index] = slot;
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'loading':
+          try {
+            this.options.wasm?.onProgress?.(message.progress);
+          } catch {
+            // Progress UI must not break loading
+          }
+          if (slot.job) this.report(slot.job, { stage: 'loading' });
+          break;
+        case 'ready':
+          markReady();
+          break;
+        case 'progress':
+          if (slot.job?.id === message.id) this.report(slot.job, { stage: message.stage });
+          break;
+        case 'result':
+          if (slot.job?.id === message.id) this.finish(slot, message.result);
+          break;
+        case 'error':
+          if (message.id === undefined) {
+            markFailed(deserializeError(message.error));
+          } else if (slot.job?.id === message.id) {
+            this.finish(slot, undefined, deserializeError(message.error));
+          }
+          break;
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      const error = new Error(`Encryption worker crashed: ${event.message}`);
+      markFailed(error);
+      const job = slot.job;
+      this.discard(index, slot);
+      if (job) this.settle(job, error);
+      this.dispatch();
+    };
+
+    const { onProgress: _onProgress, ...wasm } = this.options.wasm ?? {};
+    const init: WorkerRequest = { type: 'init', network: this.network, rpcUrl: this.rpcUrl, wasm };
+    worker.postMessage(init);
+    return slot;
+  }
+
+  private finish(slot: WorkerSlot, result?: RawEncryptResult, error?: unknown) {
+    const job = slot.job!;
+    slot.job = null;
+    if (error) {
+      this.settle(job, error);
+    } else {
+      this.report(job, { stage: 'done' });
+      this.settle(job, undefined, result);
+    }
+    this.dispatch();
+  }
+
+  private cancel(job: EncryptJob) {
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      this.settle(job, abortError());
+      this.queue.forEach((waiting, position) => this.report(waiting, { stage: 'queued', position }));
+      return;
+    }
+
+    // WASM cannot be interrupted: stop the worker, the next job gets a fresh one
+    const index = this.slots.findIndex(slot => slot?.job === job);
+    if (index >= 0) {
+      this.discard(index, this.slots[index]!);
+      this.settle(job, abortError());
+      this.dispatch();
+    }
+  }
+
+  private discard(index: number, slot: WorkerSlot) {
+    slot.worker.terminate();
+    slot.job = null;
+    if (this.slots[index] === slot) this.slots[index] = null;
+  }
+
+  private settle(job: EncryptJob, error?: unknown, result?: RawEncryptResult) {
+    if (job.settled) return;
+    job.settled = true;
+    job.removeAbortListener();
+    if (error) job.reject(error);
+    else job.resolve(result!);
+  }
+
+  private report(job: EncryptJob, progress: EncryptionProgress) {
+    try {
+      job.options.onProgress?.(progress);
+    } catch {
+      // Progress UI must not break encryption
+    }
+  }
+}
+
+export function serializeWorkerError(error: any): SerializedWorkerError {
+  const cause = error?.cause;
+  return {
+    name: error?.name ?? 'Error',
+    message: error?.message ?? String(error),
+    cause: cause && typeof cause === 'object' ? { code: cause.code, status: cause.status } : undefined,
+  };
+}
+
+function deserializeError(serialized: SerializedWorkerError): Error {
+  // A worker that cannot load the WASM is not a relayer outage, whatever its message says
+  if (serialized.name === 'WasmLoadError') return new WasmLoadError(serialized.message);
+
+  const error = new Error(serialized.message) as Error & { cause?: unknown };
+  error.name = serialized.name;
+  if (serialized.cause) error.cause = serialized.cause;
+  return error;
+}
+
+function abortError(): Error {
+  return new DOMException('Encryption was cancelled.', 'AbortError');
+}
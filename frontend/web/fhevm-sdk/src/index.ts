@@ -7,6 +7,9 @@
 export * from './core/index.js';
 
 // Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt, useRelayerStatus, useContractEvent } from './adapters/react.js';
+export { FhevmProvider, useFhevmContext, useTypedContract } from './adapters/react.js';
+export type { TypedContractFactory, UseContractResult } from './adapters/react.js';
+export type { FhevmContextValue, FhevmProviderProps, FhevmStatus } from './adapters/react.js';
 
 
@@ -0,0 +1,70 @@
+/**
+ * Relayer Emulator CLI - Universal SDK
+ * npm run relayer:emulator -- --port 3100 --latency 200 --error-rate 0.1
+ * --public-key and --crs serve key files on /v1/keyurl; without them it answers 501 (mock mode only).
+ */
+
+import { parseArgs } from 'node:util';
+import { createConsoleLogger } from '../core/logger.js';
+import { startRelayerEmulator, type RelayerRoute } from './relayerEmulator.js';
+
+const { values } = parseArgs({
+  options: {
+    node: { type: 'string', default: 'http://127.0.0.1:8545' },
+    host: { type: 'string', default: '127.0.0.1' },
+    port: { type: 'string', default: '3100' },
+    latency: { type: 'string' },
+    'error-rate': { type: 'string' },
+    'error-status': { type: 'string' },
+    'malformed-rate': { type: 'string' },
+    routes: { type: 'string' },
+    'public-key': { type: 'string' },
+    'public-key-id': { type: 'string' },
+    crs: { type: 'string' },
+    'crs-id': { type: 'string' },
+  },
+});
+
+// "200" or "100-800"
+const latency = values.latency?.includes('-')
+  ? (values.latency.split('-').map(Number) as [number, number])
+  : values.latency !== undefined ? Number(values.latency) : undefined;
+
+const logger = createConsoleLogger('debug', '[relayer-emulator]');
+
+if (!values['public-key'] !== !values.crs) {
+  logger.error('❌ --public-key and --crs go together.');
+  process.exit(1);
+}
+
+const emulator = await startRelayerEmulator({
+  nodeUrl: values.node,
+  host: values.host,
+  port: Number(values.port),
+  logger,
+  faults: {
+    latencyMs: latency,
+    errorRate: values['error-rate'] !== undefined ? Number(values['error-rate']) : undefined,
+    errorStatus: values['error-status'] !== undefined ? Number(values['error-status']) : undefined,
+    malformedRate: values['malformed-rate'] !== undefined ? Number(values['malformed-rate']) : undefined,
+    routes: values.routes?.split(',') as RelayerRoute[] | undefined,
+  },
+  keys: values['public-key'] && values.crs
+    ? {
+        publicKey: values['public-key'],
+        publicKeyId: values['public-key-id'],
+        publicParams2048: values.crs,
+        publicParamsId: values['crs-id'],
+      }
+    : undefined,
+});
+
+if (!values['public-key']) {
+  logger.warn('⚠️ Mock mode only: /v1/keyurl answers 501. Pass --public-key and --crs to serve FHE keys.');
+}
+
+const shutdown = () => {
+  emulator.close().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,447 @@
+import http from 'node:http';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FhevmClient } from '../core/client.js';
+import { createHttpRelayerProvider } from '../core/mock.js';
+import { RelayerUnavailableError } from '../core/errors.js';
+import type { ResiliencePolicyOverrides } from '../core/resilience.js';
+import { startRelayerEmulator, type RelayerEmulator } from './relayerEmulator.js';
+
+const SEPOLIA = 11155111;
+const HANDLE = `0x${'ab'.repeat(21)}00${SEPOLIA.toString(16).padStart(16, '0')}0400`;
+const PROOF = `0x${'11'.repeat(65)}`;
+const CONTRACT = ethers.getAddress(`0x${'c0'.repeat(20)}`);
+const USER = `0x${'a1'.repeat(20)}`;
+const COPROCESSOR_SIGNATURE = `0x${'33'.repeat(65)}`;
+
+// No backoff wait, so retries stay fast
+const FAST_RETRY = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+interface FakeNode {
+  url: string;
+  calls: { method: string; params: any[] }[];
+  close: () => Promise<void>;
+}
+
+/**
+ * JSON-RPC server standing in for a Hardhat node with the fhevm plugin
+ */
+async function startFakeNode({ fhevm = true } = {}): Promise<FakeNode> {
+  const calls: FakeNode['calls'] = [];
+
+  const answer = ({ id, method, params }: { id: number; method: string; params: any[] }) => {
+    calls.push({ method, params });
+    switch (method) {
+      case 'eth_chainId':
+        return { id, jsonrpc: '2.0', result: '0x7a69' };
+      case 'fhevm_relayer_metadata':
+        return fhevm
+          ? { id, jsonrpc: '2.0', result: { ACLAddress: '0x01', InputVerifierAddress: '0x02', KMSVerifierAddress: '0x03' } }
+          : { id, jsonrpc: '2.0', error: { code: -32601, message: 'Method not found' } };
+      case 'fhevm_relayer_v1_user_decrypt':
+        return {
+          id,
+          jsonrpc: '2.0',
+          result: Object.fromEntries(params[0].handleContractPairs.map(({ handle }: { handle: string }) => [handle, '0x2a'])),
+        };
+      case 'fhevm_relayer_v1_input_proof':
+        return { id, jsonrpc: '2.0', result: { handles: [HANDLE], signatures: [COPROCESSOR_SIGNATURE] } };
+      case 'fhevm_relayer_v1_public_decrypt':
+        return {
+          id,
+          jsonrpc: '2.0',
+          result: { clearValues: Object.fromEntries(params[0].ciphertextHandles.map((handle: string) => [handle, '0x2a'])), decryptionProof: PROOF },
+        };
+      default:
+        return { id, jsonrpc: '2.0', error: { code: -32601, message: `Method ${method} not found` } };
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      // ethers batches requests into arrays
+      const response = Array.isArray(request) ? request.map(answer) : answer(request);
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as { port: number };
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/**
+ * Client whose instance sends its relayer requests over HTTP through the emulator, like mock mode with a relayerUrl.
+ * Payloads follow @fhevm/mock-utils; keys, ciphertexts and the EIP-712 signature are placeholders.
+ */
+function clientThrough(emulator: RelayerEmulator, resilience: ResiliencePolicyOverrides) {
+  // Only relayer methods are sent, and those go over HTTP
+  const node = { send: async (method: string) => Promise.reject(new Error(`Unexpected node call ${method}`)) };
+  const relayer = createHttpRelayerProvider(emulator.url, node);
+  const instance = {
+    publicDecrypt: (handles: string[]) => relayer.send('fhevm_relayer_v1_public_decrypt', [{ ciphertextHandles: handles }]),
+    generateKeypair: () => ({ publicKey: `0x${'0a'.repeat(32)}`, privateKey: `0x${'0b'.repeat(32)}` }),
+    createEIP712: (publicKey: string, contractAddresses: string[], startTimestamp: string, durationDays: string) => ({
+      domain: { name: 'Decryption', version: '1', chainId: SEPOLIA },
+      types: { UserDecryptRequestVerification: [] },
+      message: { publicKey, contractAddresses, startTimestamp, durationDays },
+    }),
+    userDecrypt: (
+      handleContractPairs: { handle: string; contractAddress: string }[],
+      _privateKey: string,
+      publicKey: string,
+      signature: string,
+      contractAddresses: string[],
+      userAddress: string,
+      startTimestamp: string,
+      durationDays: string
+    ) => relayer.send('fhevm_relayer_v1_user_decrypt', [{
+      handleContractPairs,
+      requestValidity: { startTimestamp, durationDays },
+      contractsChainId: String(SEPOLIA),
+      contractAddresses,
+      userAddress,
+      signature,
+      publicKey,
+    }]),
+    createEncryptedInput: (contractAddress: string, userAddress: string) => {
+      const values: bigint[] = [];
+      return {
+        add32: (value: bigint) => values.push(value),
+        encrypt: async () => {
+          const result = await relayer.send('fhevm_relayer_v1_input_proof', [{
+            contractAddress,
+            userAddress,
+            ciphertextWithInputVerification: ethers.hexlify(ethers.toBeArray(values[0])),
+            contractChainId: String(SEPOLIA),
+            extraData: '0x00',
+          }]);
+          return {
+            handles: result.handles.map((handle: string) => ethers.getBytes(handle)),
+            inputProof: ethers.getBytes(ethers.concat([...result.handles, ...result.signatures])),
+          };
+        },
+      };
+    },
+  };
+  return new FhevmClient({ instance, resilience });
+}
+
+// Counts EIP-712 prompts: a retried request must reuse the session signature
+function fakeSigner() {
+  const signer = {
+    prompts: 0,
+    getAddress: async () => USER,
+    signTypedData: async () => {
+      signer.prompts++;
+      return `0x${'22'.repeat(65)}`;
+    },
+  };
+  return signer;
+}
+
+describe('relayer emulator', () => {
+  let node: FakeNode;
+  let emulator: RelayerEmulator;
+
+  beforeEach(async () => {
+    node = await startFakeNode();
+    emulator = await startRelayerEmulator({ nodeUrl: node.url });
+  });
+
+  afterEach(async () => {
+    await emulator.close();
+    await node.close();
+  });
+
+  it('forwards relayer requests to the node and wraps the answer like the relayer', async () => {
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+
+    const result = await client.publicDecryptV09([HANDLE]);
+
+    expect(result.clearValues).toEqual({ [HANDLE]: 42n });
+    expect(result.decryptionProof).toBe(PROOF);
+    expect(emulator.requestCounts['public-decrypt']).toBe(1);
+    expect(node.calls.find(call => call.method === 'fhevm_relayer_v1_public_decrypt')?.params).toEqual([{ ciphertextHandles: [HANDLE] }]);
+  });
+
+  it('retries injected 5xx responses, then opens the circuit', async () => {
+    emulator.setFaults({ errorRate: 1, errorStatus: 503 });
+    const client = clientThrough(emulator, {
+      retry: FAST_RETRY,
+      circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 100 },
+    });
+
+    const error = await client.publicDecryptV09([HANDLE]).catch(err => err);
+    expect(error).toBeInstanceOf(RelayerUnavailableError);
+    expect(error.status).toBe(503);
+    expect(emulator.requestCounts['public-decrypt']).toBe(3);
+    expect(client.getRelayerStatus()).toMatchObject({ status: 'RELAYER_UNAVAILABLE', circuit: 'open' });
+
+    // Open circuit: failing fast without reaching the relayer
+    await expect(client.publicDecryptV09([HANDLE])).rejects.toThrow(/Requests are paused/);
+    expect(emulator.requestCounts['public-decrypt']).toBe(3);
+
+    // The relayer recovers; after the reset timeout one trial call closes the circuit
+    emulator.setFaults({});
+    await new Promise(resolve => setTimeout(resolve, 120));
+    await expect(client.publicDecryptV09([HANDLE])).resolves.toMatchObject({ clearValues: { [HANDLE]: 42n } });
+    expect(client.getRelayerStatus()).toMatchObject({ status: 'AVAILABLE', circuit: 'closed' });
+  });
+
+  it('recovers from an intermittent outage within the retry budget', async () => {
+    emulator.setFaults({ errorRate: 1, errorStatus: 429 });
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+    client.onRelayerStatusChange(status => {
+      // Heal the relayer after its first failure
+      if (status.consecutiveFailures === 1) emulator.setFaults({});
+    });
+
+    await expect(client.publicDecryptV09([HANDLE])).resolves.toMatchObject({ decryptionProof: PROOF });
+    expect(emulator.requestCounts['public-decrypt']).toBe(2);
+  });
+
+  it('does not retry client errors', async () => {
+    emulator.setFaults({ errorRate: 1, errorStatus: 400 });
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+
+    const error = await client.publicDecryptV09([HANDLE]).catch(err => err);
+    expect(error).not.toBeInstanceOf(RelayerUnavailableError);
+    expect(error.message).toMatch(/HTTP 400/);
+    expect(emulator.requestCounts['public-decrypt']).toBe(1);
+    expect(client.getRelayerStatus().consecutiveFailures).toBe(0);
+  });
+
+  it('treats malformed responses as an outage', async () => {
+    emulator.setFaults({ malformedRate: 1 });
+    const client = clientThrough(emulator, { retry: { ...FAST_RETRY, retries: 1 } });
+
+    await expect(client.publicDecryptV09([HANDLE])).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(emulator.requestCounts['public-decrypt']).toBe(2);
+  });
+
+  it('times out slow responses under the operation timeout', async () => {
+    emulator.setFaults({ latencyMs: 300 });
+    const client = clientThrough(emulator, { timeouts: { publicDecrypt: 50 }, retry: { retries: 0 } });
+
+    await expect(client.publicDecryptV09([HANDLE])).rejects.toThrow(/did not answer publicDecrypt within 50 ms/);
+
+    emulator.setFaults({ latencyMs: [10, 20] });
+    await expect(client.publicDecryptV09([HANDLE])).resolves.toMatchObject({ decryptionProof: PROOF });
+  });
+
+  it('limits faults to the listed routes', async () => {
+    emulator.setFaults({ errorRate: 1, routes: ['user-decrypt', 'input-proof'] });
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+
+    await expect(client.publicDecryptV09([HANDLE])).resolves.toMatchObject({ clearValues: { [HANDLE]: 42n } });
+  });
+
+  it('answers 501 on /v1/keyurl without keys', async () => {
+    const response = await fetch(`${emulator.url}/v1/keyurl`);
+
+    expect(response.status).toBe(501);
+    expect((await response.json()).message).toMatch(/--public-key and --crs/);
+    expect((await fetch(`${emulator.url}/v1/keys/public-key`)).status).toBe(404);
+    expect((await fetch(`${emulator.url}/health`)).status).toBe(200);
+    expect((await fetch(`${emulator.url}/v1/unknown`, { method: 'POST' })).status).toBe(404);
+  });
+});
+
+describe('relayer emulator: user decryption', () => {
+  let node: FakeNode;
+  let emulator: RelayerEmulator;
+
+  beforeEach(async () => {
+    node = await startFakeNode();
+    emulator = await startRelayerEmulator({ nodeUrl: node.url });
+  });
+
+  afterEach(async () => {
+    await emulator.close();
+    await node.close();
+  });
+
+  it('sends the signed request to the node and types the values by handle', async () => {
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+    const signer = fakeSigner();
+
+    await expect(client.batchDecryptValues([HANDLE], CONTRACT, signer)).resolves.toEqual({ [HANDLE]: 42n });
+
+    const [payload] = node.calls.find(call => call.method === 'fhevm_relayer_v1_user_decrypt')!.params;
+    expect(payload).toMatchObject({
+      handleContractPairs: [{ handle: HANDLE, contractAddress: CONTRACT }],
+      contractAddresses: [CONTRACT],
+      userAddress: USER,
+      signature: '22'.repeat(65),
+      contractsChainId: String(SEPOLIA),
+    });
+    expect(emulator.requestCounts['user-decrypt']).toBe(1);
+  });
+
+  it('retries injected 5xx responses without asking for another signature', async () => {
+    emulator.setFaults({ errorRate: 1, errorStatus: 502, routes: ['user-decrypt'] });
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+    client.onRelayerStatusChange(status => {
+      if (status.consecutiveFailures === 2) emulator.setFaults({});
+    });
+    const signer = fakeSigner();
+
+    await expect(client.batchDecryptValues([HANDLE], CONTRACT, signer)).resolves.toEqual({ [HANDLE]: 42n });
+    expect(emulator.requestCounts['user-decrypt']).toBe(3);
+    expect(signer.prompts).toBe(1);
+  });
+
+  it('fails with RELAYER_UNAVAILABLE once the retries are spent, keeping the session', async () => {
+    emulator.setFaults({ malformedRate: 1, routes: ['user-decrypt'] });
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+    const signer = fakeSigner();
+
+    await expect(client.batchDecryptValues([HANDLE], CONTRACT, signer)).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(emulator.requestCounts['user-decrypt']).toBe(3);
+
+    emulator.setFaults({});
+    await expect(client.batchDecryptValues([HANDLE], CONTRACT, signer)).resolves.toEqual({ [HANDLE]: 42n });
+    expect(signer.prompts).toBe(1);
+  });
+
+  it('times out slow responses under the userDecrypt timeout', async () => {
+    emulator.setFaults({ latencyMs: 300, routes: ['user-decrypt'] });
+    const client = clientThrough(emulator, { timeouts: { userDecrypt: 50 }, retry: { retries: 0 } });
+
+    await expect(client.batchDecryptValues([HANDLE], CONTRACT, fakeSigner())).rejects.toThrow(/did not answer userDecrypt within 50 ms/);
+  });
+});
+
+describe('relayer emulator: input proofs', () => {
+  let node: FakeNode;
+  let emulator: RelayerEmulator;
+
+  beforeEach(async () => {
+    node = await startFakeNode();
+    emulator = await startRelayerEmulator({ nodeUrl: node.url });
+  });
+
+  afterEach(async () => {
+    await emulator.close();
+    await node.close();
+  });
+
+  it('sends the ciphertext to the node and returns its handles and proof', async () => {
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+
+    const { encryptedData, proof } = await client.createEncryptedInput(CONTRACT, USER, 7);
+
+    expect(ethers.hexlify(encryptedData)).toBe(HANDLE);
+    expect(ethers.hexlify(proof)).toBe(ethers.concat([HANDLE, COPROCESSOR_SIGNATURE]));
+    const [payload] = node.calls.find(call => call.method === 'fhevm_relayer_v1_input_proof')!.params;
+    expect(payload).toMatchObject({ contractAddress: CONTRACT, userAddress: USER, contractChainId: String(SEPOLIA) });
+    expect(emulator.requestCounts['input-proof']).toBe(1);
+  });
+
+  it('retries injected 5xx responses, then opens the circuit', async () => {
+    emulator.setFaults({ errorRate: 1, errorStatus: 503, routes: ['input-proof'] });
+    const client = clientThrough(emulator, {
+      retry: FAST_RETRY,
+      circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 60_000 },
+    });
+
+    const error = await client.createEncryptedInput(CONTRACT, USER, 7).catch(err => err);
+    expect(error).toBeInstanceOf(RelayerUnavailableError);
+    expect(error.status).toBe(503);
+    expect(emulator.requestCounts['input-proof']).toBe(3);
+
+    // Other operations share the circuit: no request reaches the relayer while it is open
+    await expect(client.batchDecryptValues([HANDLE], CONTRACT, fakeSigner())).rejects.toThrow(/Requests are paused/);
+    expect(emulator.requestCounts['user-decrypt']).toBe(0);
+  });
+
+  it('does not retry a rejected proof', async () => {
+    emulator.setFaults({ errorRate: 1, errorStatus: 400, routes: ['input-proof'] });
+    const client = clientThrough(emulator, { retry: FAST_RETRY });
+
+    await expect(client.createEncryptedInput(CONTRACT, USER, 7)).rejects.toThrow(/HTTP 400/);
+    expect(emulator.requestCounts['input-proof']).toBe(1);
+  });
+
+  it('times out slow responses under the encrypt timeout', async () => {
+    emulator.setFaults({ latencyMs: 300, routes: ['input-proof'] });
+    const client = clientThrough(emulator, { timeouts: { encrypt: 50 }, retry: { retries: 0 } });
+
+    await expect(client.createEncryptedInput(CONTRACT, USER, 7)).rejects.toThrow(/did not answer encrypt within 50 ms/);
+  });
+});
+
+describe('relayer emulator: FHE keys', () => {
+  const PUBLIC_KEY = new Uint8Array([1, 2, 3, 4]);
+  const CRS = new Uint8Array([5, 6, 7]);
+  let node: FakeNode;
+  let dir: string;
+
+  beforeEach(async () => {
+    node = await startFakeNode();
+    dir = await mkdtemp(join(tmpdir(), 'relayer-emulator-'));
+  });
+
+  afterEach(async () => {
+    await node.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves /v1/keyurl and the key files the way the relayer SDK reads them', async () => {
+    await writeFile(join(dir, 'pk.bin'), PUBLIC_KEY);
+    await writeFile(join(dir, 'crs.bin'), CRS);
+    const emulator = await startRelayerEmulator({
+      nodeUrl: node.url,
+      keys: { publicKey: join(dir, 'pk.bin'), publicKeyId: 'pk-1', publicParams2048: join(dir, 'crs.bin') },
+    });
+
+    try {
+      const keyurl = await (await fetch(`${emulator.url}/v1/keyurl`)).json();
+      expect(keyurl.status).toBe('succeeded');
+
+      // The fields getKeysFromRelayer uses
+      const { fhe_public_key } = keyurl.response.fhe_key_info[0];
+      expect(fhe_public_key.data_id).toBe('pk-1');
+      expect(keyurl.response.crs['2048'].data_id).toBe('emulator-crs-2048');
+
+      const publicKey = await fetch(fhe_public_key.urls[0]);
+      expect(new Uint8Array(await publicKey.arrayBuffer())).toEqual(PUBLIC_KEY);
+      const crs = await fetch(keyurl.response.crs['2048'].urls[0]);
+      expect(new Uint8Array(await crs.arrayBuffer())).toEqual(CRS);
+    } finally {
+      await emulator.close();
+    }
+  });
+
+  it('refuses to start when a key file cannot be read', async () => {
+    await expect(startRelayerEmulator({
+      nodeUrl: node.url,
+      keys: { publicKey: join(dir, 'missing.bin'), publicParams2048: CRS },
+    })).rejects.toThrow(/Cannot read the FHE public key from .*missing\.bin/);
+  });
+});
+
+describe('startRelayerEmulator', () => {
+  it('refuses a node without the fhevm plugin', async () => {
+    const node = await startFakeNode({ fhevm: false });
+    try {
+      await expect(startRelayerEmulator({ nodeUrl: node.url })).rejects.toThrow(/not a Hardhat node with the fhevm plugin/);
+    } finally {
+      await node.close();
+    }
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * FHEVM Relayer Emulator - Universal SDK
+ * Local HTTP stand-in for the Zama relayer, backed by a Hardhat node running
+ * the fhevm plugin, with fault injection for resilience testing
+ */
+
+import http from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { ethers } from 'ethers';
+import { silentLogger, type FhevmLogger } from '../core/logger.js';
+
+export type RelayerRoute = 'input-proof' | 'user-decrypt' | 'public-decrypt';
+
+// Mock node JSON-RPC method serving each relayer endpoint
+const ROUTE_METHODS: Record<RelayerRoute, string> = {
+  'input-proof': 'fhevm_relayer_v1_input_proof',
+  'user-decrypt': 'fhevm_relayer_v1_user_decrypt',
+  'public-decrypt': 'fhevm_relayer_v1_public_decrypt',
+};
+
+export interface RelayerFaults {
+  // Added to every response; [min, max] picks a random delay in range
+  latencyMs?: number | [number, number];
+  // Share of requests (0 to 1) answered with errorStatus
+  errorRate?: number;
+  // Defaults to 503
+  errorStatus?: number;
+  // Share of requests (0 to 1) answered 200 with a body the relayer SDK cannot use
+  malformedRate?: number;
+  // Routes the faults apply to, defaults to all
+  routes?: RelayerRoute[];
+}
+
+// FHE public key and CRS served on /v1/keyurl: serialized bytes, or the path of a file holding them
+export interface RelayerEmulatorKeys {
+  publicKey: Uint8Array | string;
+  publicKeyId?: string;
+  // CRS for 2048-bit inputs (publicParams[2048] in the relayer SDK)
+  publicParams2048: Uint8Array | string;
+  publicParamsId?: string;
+}
+
+export interface RelayerEmulatorOptions {
+  // Hardhat node with the fhevm plugin, defaults to http://127.0.0.1:8545
+  nodeUrl?: string;
+  host?: string;
+  // 0 picks a free port
+  port?: number;
+  faults?: RelayerFaults;
+  // Without keys /v1/keyurl answers 501
+  keys?: RelayerEmulatorKeys;
+  logger?: FhevmLogger;
+}
+
+export interface RelayerEmulator {
+  // Use as the network's relayerUrl
+  url: string;
+  port: number;
+  // Requests served per route, faults included
+  requestCounts: Record<RelayerRoute, number>;
+  setFaults: (faults: RelayerFaults) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve POST /v1/input-proof, /v1/user-decrypt and /v1/public-decrypt in the relayer's JSON format.
+ * The payloads are the ones @fhevm/mock-utils sends: point the SDK's mock mode at `url`.
+ * GET /v1/keyurl lists the configured `keys`, downloaded from /v1/keys/public-key and /v1/keys/crs-2048,
+ * so the relayer SDK can fetch its key material offline. It answers 501 without keys.
+ */
+export async function startRelayerEmulator(options: RelayerEmulatorOptions = {}): Promise<RelayerEmulator> {
+  const logger = options.logger ?? silentLogger;
+  const node = new ethers.JsonRpcProvider(options.nodeUrl ?? 'http://127.0.0.1:8545');
+  let faults: RelayerFaults = options.faults ?? {};
+  const requestCounts: Record<RelayerRoute, number> = { 'input-proof': 0, 'user-decrypt': 0, 'public-decrypt': 0 };
+
+  // Fail at startup rather than on the first request
+  try {
+    await node.send('fhevm_relayer_metadata', []);
+  } catch (err) {
+    node.destroy();
+    throw new Error(`${options.nodeUrl ?? 'http://127.0.0.1:8545'} is not a Hardhat node with the fhevm plugin.`);
+  }
+
+  let keys: LoadedKeys | null = null;
+  try {
+    keys = options.keys ? await loadKeys(options.keys) : null;
+  } catch (err) {
+    node.destroy();
+    throw err;
+  }
+  // Set once listening; key URLs in /v1/keyurl point back at the emulator
+  let url = '';
+
+  const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const path = (req.url ?? '').split('?')[0];
+    if (req.method === 'GET' && path === '/health') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+    if (req.method === 'GET' && path === '/v1/keyurl') {
+      if (!keys) {
+        sendJson(res, 501, {
+          message: 'The relayer emulator has no FHE public key to serve. Start it with keys (--public-key and --crs), or point the SDK at it in mock mode (network.relayerUrl).',
+        });
+        return;
+      }
+      sendJson(res, 200, { response: keyUrlResponse(keys, url), status: 'succeeded' });
+      return;
+    }
+    const keyFile = /^\/v1\/keys\/(public-key|crs-2048)$/.exec(path)?.[1];
+    if (req.method === 'GET' && keyFile && keys) {
+      const bytes = keyFile === 'public-key' ? keys.publicKey : keys.publicParams2048;
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': bytes.byteLength }).end(bytes);
+      return;
+    }
+
+    const route = /^\/v1\/(input-proof|user-decrypt|public-decrypt)$/.exec(path)?.[1] as RelayerRoute | undefined;
+    if (req.method !== 'POST' || !route) {
+      sendJson(res, 404, { message: `No relayer endpoint ${req.method} ${path}` });
+      return;
+    }
+
+    requestCounts[route]++;
+    const applies = !faults.routes || faults.routes.includes(route);
+
+    try {
+      const payload = JSON.parse(await readBody(req));
+
+      if (applies) {
+        await sleep(pickLatency(faults.latencyMs));
+
+        if (Math.random() < (faults.errorRate ?? 0)) {
+          const status = faults.errorStatus ?? 503;
+          logger.info(`↯ ${route}: injected HTTP ${status}`);
+          sendJson(res, status, { message: 'Injected fault' });
+          return;
+        }
+        if (Math.random() < (faults.malformedRate ?? 0)) {
+          logger.info(`↯ ${route}: injected malformed response`);
+          // Alternate between unparsable JSON and JSON without a `response` property
+          if (Math.random() < 0.5) {
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"response":');
+          } else {
+            sendJson(res, 200, { status: 'succeeded' });
+          }
+          return;
+        }
+      }
+
+      const result = await node.send(ROUTE_METHODS[route], [payload]);
+      logger.debug(`✅ ${route}`);
+
+      // The relayer wraps decryption results in a list, input proofs in an object
+      sendJson(res, 200, { response: route === 'input-proof' ? result : [result], status: 'succeeded' });
+    } catch (err: any) {
+      logger.warn(`❌ ${route}:`, err?.message ?? err);
+      sendJson(res, 400, { message: err?.error?.message ?? err?.shortMessage ?? err?.message ?? 'Bad request' });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port ?? 0;
+  url = `http://${options.host ?? '127.0.0.1'}:${port}`;
+  logger.info(`🧪 Relayer emulator listening on ${url}`);
+
+  return {
+    url,
+    port,
+    requestCounts,
+    setFaults: (next: RelayerFaults) => {
+      faults = next;
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      node.destroy();
+      server.close(err => (err ? reject(err) : resolve()));
+      // Keep-alive clients and abandoned slow requests would hold close() open
+      server.closeAllConnections();
+    }),
+  };
+}
+
+interface LoadedKeys {
+  publicKey: Uint8Array;
+  publicKeyId: string;
+  publicParams2048: Uint8Array;
+  publicParamsId: string;
+}
+
+async function loadKeys(keys: RelayerEmulatorKeys): Promise<LoadedKeys> {
+  const load = async (source: Uint8Array | string, name: string) => {
+    if (typeof source !== 'string') return source;
+    try {
+      return new Uint8Array(await readFile(source));
+    } catch (err) {
+      throw new Error(`Cannot read the ${name} from ${source}: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  return {
+    publicKey: await load(keys.publicKey, 'FHE public key'),
+    publicKeyId: keys.publicKeyId ?? 'emulator-public-key',
+    publicParams2048: await load(keys.publicParams2048, 'CRS'),
+    publicParamsId: keys.publicParamsId ?? 'emulator-crs-2048',
+  };
+}
+
+/**
+ * Body of the relayer's GET /v1/keyurl, the fields the relayer SDK reads
+ */
+function keyUrlResponse(keys: LoadedKeys, baseUrl: string) {
+  return {
+    fhe_key_info: [
+      {
+        fhe_public_key: { data_id: keys.publicKeyId, param_choice: 1, urls: [`${baseUrl}/v1/keys/public-key`], signatures: [] },
+        // The SDK never downloads the server key
+        fhe_server_key: { data_id: `${keys.publicKeyId}-server`, param_choice: 1, urls: [], signatures: [] },
+      },
+    ],
+    verf_public_key: [],
+    crs: {
+      2048: { data_id: keys.publicParamsId, param_choice: 1, urls: [`${baseUrl}/v1/keys/crs-2048`], signatures: [] },
+    },
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function pickLatency(latency: RelayerFaults['latencyMs']): number {
+  if (Array.isArray(latency)) return latency[0] + Math.random() * (latency[1] - latency[0]);
+  return latency ?? 0;
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
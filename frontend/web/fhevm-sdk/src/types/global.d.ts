@@ -12,21 +12,6 @@ declare global {
   }
 }
 
-// SDK module declarations
-declare module '@zama-fhe/relayer-sdk/bundle' {
-  export function initSDK(): Promise<void>;
-  export function createInstance(config: any): Promise<any>;
-  export const SepoliaConfig: any;
-}
-
-// Vue module declaration (optional)
-declare module 'vue' {
-  export function ref<T>(value: T): { value: T };
-  export function computed<T>(fn: () => T): { value: T };
-  export function onUnmounted(fn: () => void): void;
-  export function watch<T>(source: () => T, callback: (newValue: T, oldValue: T) => void, options?: any): void;
-}
-
 export {};
 
 
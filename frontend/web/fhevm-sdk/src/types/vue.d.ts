@@ -0,0 +1,13 @@
+// Vue module declaration (optional peer, only the APIs adapters/vue.ts uses)
+// Kept out of global.d.ts: an ambient module must live in a file without exports
+declare module 'vue' {
+  export function ref<T>(value: T): { value: T };
+  export function shallowRef<T>(value: T): { value: T };
+  export function computed<T>(fn: () => T): { readonly value: T };
+  export function onUnmounted(fn: () => void): void;
+  export function watch<T>(
+    source: () => T,
+    callback: (newValue: T, oldValue: T, onCleanup: (cleanupFn: () => void) => void) => void,
+    options?: any
+  ): void;
+}
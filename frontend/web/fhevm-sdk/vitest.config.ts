@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+// The SDK's own config: without it vitest picks up the app's vite.config.ts one directory up
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    coverage: {
+      provider: 'v8',
+      include: ['src/**/*.ts'],
+      exclude: ['src/**/*.test.ts', 'src/types/**'],
+      reporter: ['text'],
+    },
+  },
+});
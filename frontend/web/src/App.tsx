@@ -4,7 +4,7 @@ import React, { useEffect, useState } from "react";
 import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useFhevm, useEncrypt, useDecrypt, toFhevmError, isFhevmError, ContractRevertError } from '../fhevm-sdk/src';
 
 interface MedicalRecord {
   id: string;
@@ -197,9 +197,10 @@ const App: React.FC = () => {
       setShowCreateModal(false);
       setNewRecordData({ name: "", age: "", bloodPressure: "", description: "" });
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
+      const error = toFhevmError(e);
+      const errorMessage = isFhevmError(error, 'USER_REJECTED')
         ? "用户取消交易" 
-        : "提交失败: " + (e.message || "未知错误");
+        : "提交失败: " + (error.message || "未知错误");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
@@ -260,7 +261,8 @@ const App: React.FC = () => {
       return Number(clearValue);
       
     } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
+      const error = toFhevmError(e);
+      if (error instanceof ContractRevertError && error.reason === "Data already processed") {
         setTransactionStatus({ 
           visible: true, 
           status: "success", 
@@ -277,7 +279,7 @@ const App: React.FC = () => {
       setTransactionStatus({ 
         visible: true, 
         status: "error", 
-        message: "解密失败: " + (e.message || "未知错误") 
+        message: "解密失败: " + (error.message || "未知错误") 
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
@@ -14,6 +14,8 @@ export default defineConfig({
   },
   optimizeDeps: {
     include: ['@base-org/account'],
+    // Keep the relayer SDK's WASM and worker URLs (new URL(..., import.meta.url)) intact
+    exclude: ['@zama-fhe/relayer-sdk'],
     esbuildOptions: {
       target: "es2022",
       supported: {